@@ -1,24 +1,33 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import ChatInterface from './components/ChatInterface'
 import MealPlanDisplay from './components/MealPlanDisplay'
 import ShoppingListDisplay from './components/ShoppingListDisplay'
 import LandingPage from './components/LandingPage'
+import ResetPasswordPage from './components/ResetPasswordPage'
 import './App.css'
 
 const API = (import.meta.env.VITE_API_URL ?? '').replace(/\/$/, '')
 
+// Password reset emails link to /reset-password?token=…; null when not on that page.
+function readResetToken() {
+  if (window.location.pathname !== '/reset-password') return null
+  return new URLSearchParams(window.location.search).get('token') ?? ''
+}
+
 export default function App() {
   /* ── Auth ── */
   const [token,          setToken]          = useState(() => localStorage.getItem('token') ?? '')
   const [loggedInUserId, setLoggedInUserId] = useState(() => localStorage.getItem('userId') ?? '')
   const [authEmail,      setAuthEmail]      = useState('')
   const [authPassword,   setAuthPassword]   = useState('')
+  const [resetToken,     setResetToken]     = useState(readResetToken)
+  const refreshing = useRef(null)
 
   /* ── Chat ── */
   const [messages,       setMessages]       = useState([])
   const [input,          setInput]          = useState('')
   const [chatLoading,    setChatLoading]    = useState(false)
-  const [conversationId]                    = useState(() => crypto.randomUUID())
+  const [conversationId, setConversationId] = useState(() => localStorage.getItem('conversationId') ?? crypto.randomUUID())
 
   /* ── Meal plan ── */
   const [mealPlan,    setMealPlan]    = useState(null)
@@ -26,9 +35,89 @@ export default function App() {
   const [planLoading, setPlanLoading] = useState(false)
 
   /* ── Shopping list ── */
-  const [shoppingList, setShoppingList] = useState(null)
-  const [retailer,     setRetailer]     = useState('tesco')
-  const [shopLoading,  setShopLoading]  = useState(false)
+  const [shoppingList,  setShoppingList]  = useState(null)
+  const [retailerLinks, setRetailerLinks] = useState(null)
+  const [retailers,     setRetailers]     = useState([])
+  const [retailer,      setRetailer]      = useState('')
+  const [shopLoading,   setShopLoading]   = useState(false)
+
+  /* ── Retailers (public list; first one is the default) ── */
+  useEffect(() => {
+    fetch(`${API}/retailers`)
+      .then(res => (res.ok ? res.json() : { retailers: [] }))
+      .then(data => {
+        setRetailers(data.retailers)
+        setRetailer(current => current || data.retailers[0]?.id || '')
+      })
+      .catch(() => setRetailers([]))
+  }, [])
+
+  /* ── Session ── */
+  const storeSession = useCallback((data) => {
+    localStorage.setItem('token',        data.token)
+    localStorage.setItem('refreshToken', data.refresh_token)
+    setToken(data.token)
+  }, [])
+
+  const clearSession = useCallback(() => {
+    localStorage.removeItem('token')
+    localStorage.removeItem('refreshToken')
+    localStorage.removeItem('userId')
+    localStorage.removeItem('conversationId')
+    setConversationId(crypto.randomUUID())
+    setToken('')
+    setLoggedInUserId('')
+    setMessages([])
+    setMealPlan(null)
+    setSavedPlanId(null)
+    setShoppingList(null)
+    setRetailerLinks(null)
+  }, [])
+
+  // Access tokens are short-lived: on 401, swap the refresh token for a new one and retry once.
+  // Concurrent requests share one refresh, since each refresh token can only be used once.
+  const authFetch = useCallback(async (path, options = {}) => {
+    const send = (accessToken) =>
+      fetch(`${API}${path}`, { ...options, headers: { ...options.headers, Authorization: `Bearer ${accessToken}` } })
+
+    const res = await send(localStorage.getItem('token'))
+    const refreshToken = localStorage.getItem('refreshToken')
+    if (res.status !== 401 || !refreshToken) return res
+
+    if (!refreshing.current) {
+      refreshing.current = fetch(`${API}/token/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refresh_token: refreshToken }),
+      })
+        .then(r => (r.ok ? r.json() : null))
+        .catch(() => null)
+        .finally(() => { refreshing.current = null })
+    }
+    const data = await refreshing.current
+    if (!data) {
+      clearSession()
+      return res
+    }
+    storeSession(data)
+    return send(data.token)
+  }, [storeSession, clearSession])
+
+  /* ── Chat history: keep the conversation across reloads and show what was said so far ── */
+  const loggedIn = token !== ''
+  useEffect(() => {
+    localStorage.setItem('conversationId', conversationId)
+    if (!loggedIn) return
+    authFetch(`/conversations/${conversationId}/messages?limit=100`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!data) return
+        setMessages(data.messages.map(m => ({ role: m.sender === 'user' ? 'user' : 'assistant', content: m.message })))
+        const lastPlan = [...data.messages].reverse().find(m => m.meal_plan)?.meal_plan
+        if (lastPlan) setMealPlan(lastPlan)
+      })
+      .catch(() => {})
+  }, [loggedIn, authFetch, conversationId])
 
   const loading = chatLoading || planLoading || shopLoading
 
@@ -43,28 +132,61 @@ export default function App() {
       const data = await res.json()
       if (!res.ok) throw new Error(data.error ?? 'Authentication failed')
 
-      localStorage.setItem('token',  data.token)
+      storeSession(data)
       localStorage.setItem('userId', String(data.userId))
-      setToken(data.token)
       setLoggedInUserId(String(data.userId))
       setAuthEmail('')
       setAuthPassword('')
     } catch (err) {
       alert(err.message)
     }
+  }, [storeSession])
+
+  /* ── Password reset ── */
+  const handleForgotPassword = useCallback(async (email) => {
+    try {
+      const res = await fetch(`${API}/password-reset/request`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error ?? 'Could not send the reset link')
+      return data.message
+    } catch (err) {
+      alert(err.message)
+      return null
+    }
   }, [])
 
-  const handleLogout = useCallback(() => {
-    localStorage.removeItem('token')
-    localStorage.removeItem('userId')
-    setToken('')
-    setLoggedInUserId('')
-    setMessages([])
-    setMealPlan(null)
-    setSavedPlanId(null)
-    setShoppingList(null)
+  const handleResetPassword = useCallback(async (resetTokenValue, newPassword) => {
+    try {
+      const res = await fetch(`${API}/password-reset/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: resetTokenValue, new_password: newPassword }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error ?? 'Password reset failed')
+      // Resetting logs out every session, this browser's included
+      clearSession()
+      return true
+    } catch (err) {
+      alert(err.message)
+      return false
+    }
+  }, [clearSession])
+
+  const leaveResetPage = useCallback(() => {
+    window.history.replaceState(null, '', '/')
+    setResetToken(null)
   }, [])
 
+  const handleLogout = useCallback(() => {
+    authFetch('/logout', { method: 'POST' }).catch(() => {})
+    clearSession()
+  }, [authFetch, clearSession])
+
   /* ── Chat ── */
   const sendMessage = useCallback(async () => {
     const text = input.trim()
@@ -75,39 +197,71 @@ export default function App() {
     setInput('')
     setChatLoading(true)
 
+    // Placeholder assistant message, filled in as the stream arrives
+    setMessages(prev => [...prev, { role: 'assistant', content: '' }])
+    const setAssistantContent = content =>
+      setMessages(prev => [...prev.slice(0, -1), { role: 'assistant', content }])
+
     try {
-      const res = await fetch(`${API}/chat`, {
+      const res = await authFetch('/chat/stream', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ user_message: text, conversation_id: conversationId }),
       })
-      const data = await res.json()
-      if (!res.ok) throw new Error(data.error ?? 'Chat error')
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error ?? 'Chat error')
+      }
+
+      const reader  = res.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer   = ''
+      let streamed = ''
+      let done     = null
 
-      setMessages(prev => [...prev, { role: 'assistant', content: data.message }])
-      if (data.meal_plan) setMealPlan(data.meal_plan)
+      while (!done) {
+        const { done: finished, value } = await reader.read()
+        if (finished) break
+        buffer += decoder.decode(value, { stream: true })
+
+        let boundary
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+          const raw = buffer.slice(0, boundary)
+          buffer = buffer.slice(boundary + 2)
+          const event = raw.match(/^event: (.*)$/m)?.[1]
+          const data  = JSON.parse(raw.match(/^data: (.*)$/m)?.[1] ?? 'null')
+
+          if (event === 'delta') {
+            streamed += data.text
+            // Hide the meal-plan JSON while it streams; the final message replaces this
+            setAssistantContent(streamed.split(/```|\{/)[0].trimEnd())
+          } else if (event === 'done') {
+            done = data
+          } else if (event === 'error') {
+            throw new Error(data.error ?? 'Chat error')
+          }
+        }
+      }
+      if (!done) throw new Error('Chat stream ended unexpectedly')
+
+      setAssistantContent(done.message)
+      if (done.meal_plan) setMealPlan(done.meal_plan)
     } catch (err) {
-      setMessages(prev => [...prev, { role: 'assistant', content: `Error: ${err.message}` }])
+      setAssistantContent(`Error: ${err.message}`)
     } finally {
       setChatLoading(false)
     }
-  }, [input, chatLoading, token, messages, conversationId])
+  }, [input, chatLoading, authFetch, messages, conversationId])
 
   /* ── Save plan ── */
   const savePlan = useCallback(async () => {
     if (!mealPlan || planLoading) return
     setPlanLoading(true)
     try {
-      const res = await fetch(`${API}/meal-plan`, {
+      const res = await authFetch('/meal-plan', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify(mealPlan),
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...mealPlan, conversation_id: conversationId }),
       })
       const data = await res.json()
       if (!res.ok) throw new Error(data.error ?? 'Save failed')
@@ -118,54 +272,84 @@ export default function App() {
     } finally {
       setPlanLoading(false)
     }
-  }, [mealPlan, planLoading, token])
+  }, [mealPlan, planLoading, authFetch, conversationId])
 
   /* ── Shopping list ── */
   const generateShoppingList = useCallback(async () => {
     if (!savedPlanId || shopLoading) return
     setShopLoading(true)
     try {
-      const res = await fetch(`${API}/shopping-list/${savedPlanId}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      })
+      const res = await authFetch(`/shopping-list/${savedPlanId}`)
       const data = await res.json()
       if (!res.ok) throw new Error(data.error ?? 'Generate failed')
       setShoppingList(data)
+      setRetailerLinks(null)
     } catch (err) {
       alert(err.message)
     } finally {
       setShopLoading(false)
     }
-  }, [savedPlanId, shopLoading, token])
+  }, [savedPlanId, shopLoading, authFetch])
+
+  const toggleItem = useCallback(async (item) => {
+    if (!shoppingList) return
+    const checked = !item.checked
+    const setChecked = (value) =>
+      setShoppingList((list) => ({
+        ...list,
+        items: list.items.map((i) => (i.id === item.id ? { ...i, checked: value } : i)),
+      }))
+    setChecked(checked)
+    try {
+      const res = await authFetch(`/shopping-lists/${shoppingList.shopping_list_id}/items/${item.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ checked }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error ?? 'Update failed')
+    } catch (err) {
+      setChecked(item.checked)
+      alert(err.message)
+    }
+  }, [shoppingList, authFetch])
 
   const shopNow = useCallback(async () => {
     if (!shoppingList || shopLoading) return
     setShopLoading(true)
     try {
-      const res = await fetch(`${API}/affiliate-link`, {
+      const res = await authFetch(`/shopping-lists/${shoppingList.shopping_list_id}/retailer-links`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({ retailer, search_query: 'weekly grocery shopping' }),
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ retailer }),
       })
       const data = await res.json()
       if (!res.ok) throw new Error(data.error ?? 'Shop failed')
-      if (data.url) window.open(data.url, '_blank', 'noopener,noreferrer')
+      setRetailerLinks(data.links)
     } catch (err) {
       alert(err.message)
     } finally {
       setShopLoading(false)
     }
-  }, [shoppingList, shopLoading, retailer, token])
+  }, [shoppingList, shopLoading, retailer, authFetch])
 
   /* ── Render ── */
+  if (resetToken !== null) {
+    return (
+      <ResetPasswordPage
+        resetToken={resetToken}
+        handleResetPassword={handleResetPassword}
+        onDone={leaveResetPage}
+      />
+    )
+  }
+
   if (!token) {
     return (
       <LandingPage
         loading={loading}
         handleAuth={handleAuth}
+        handleForgotPassword={handleForgotPassword}
       />
     )
   }
@@ -218,7 +402,10 @@ export default function App() {
               shoppingList={shoppingList}
               savedPlanId={savedPlanId}
               generateShoppingList={generateShoppingList}
+              toggleItem={toggleItem}
               shopNow={shopNow}
+              retailerLinks={retailerLinks}
+              retailers={retailers}
               retailer={retailer}
               setRetailer={setRetailer}
               loading={shopLoading}
@@ -3,11 +3,13 @@ import './AuthForm.css'
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
 
-export default function AuthForm({ loading, handleAuth, loggedInUserId, email, handleLogout }) {
-  const [mode,     setMode]     = useState('login')   // 'login' | 'register'
+export default function AuthForm({ loading, handleAuth, handleForgotPassword, loggedInUserId, email, handleLogout }) {
+  const [mode,     setMode]     = useState('login')   // 'login' | 'register' | 'forgot'
   const [formEmail, setFormEmail] = useState(email ?? '')
   const [password, setPassword] = useState('')
   const [emailErr, setEmailErr] = useState('')
+  const [notice,   setNotice]   = useState('')
+  const [sending,  setSending]  = useState(false)
 
   if (loggedInUserId) {
     return (
@@ -27,21 +29,41 @@ export default function AuthForm({ loading, handleAuth, loggedInUserId, email, h
     )
   }
 
-  function onSubmit(e) {
+  function switchMode(next) {
+    setMode(next)
+    setEmailErr('')
+    setNotice('')
+  }
+
+  async function onSubmit(e) {
     e.preventDefault()
     if (!EMAIL_REGEX.test(formEmail.trim())) {
       setEmailErr('Please enter a valid email address.')
       return
     }
     setEmailErr('')
-    handleAuth(mode, formEmail.trim(), password)
+    if (mode !== 'forgot') {
+      handleAuth(mode, formEmail.trim(), password)
+      return
+    }
+    setSending(true)
+    const message = await handleForgotPassword(formEmail.trim())
+    setSending(false)
+    if (message) setNotice(message)
   }
 
+  const title = { login: 'Welcome back', register: 'Create account', forgot: 'Reset your password' }[mode]
+  const submitLabel = { login: 'Log in', register: 'Create account', forgot: 'Send reset link' }[mode]
+
   return (
     <form className="auth-form" onSubmit={onSubmit} noValidate>
-      <h2 className="auth-form__title">
-        {mode === 'login' ? 'Welcome back' : 'Create account'}
-      </h2>
+      <h2 className="auth-form__title">{title}</h2>
+
+      {mode === 'forgot' && (
+        <p className="auth-form__hint">
+          Enter the email you signed up with and we&apos;ll send you a link to choose a new password.
+        </p>
+      )}
 
       <div className="auth-form__field">
         <label className="auth-form__label" htmlFor="auth-email">Email</label>
@@ -57,27 +79,36 @@ export default function AuthForm({ loading, handleAuth, loggedInUserId, email, h
         {emailErr && <p className="auth-form__error">{emailErr}</p>}
       </div>
 
-      <div className="auth-form__field">
-        <label className="auth-form__label" htmlFor="auth-password">Password</label>
-        <input
-          id="auth-password"
-          type="password"
-          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
-          value={password}
-          onChange={e => setPassword(e.target.value)}
-          placeholder="••••••••"
-          required
-        />
-      </div>
+      {mode !== 'forgot' && (
+        <div className="auth-form__field">
+          <label className="auth-form__label" htmlFor="auth-password">Password</label>
+          <input
+            id="auth-password"
+            type="password"
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            placeholder="••••••••"
+            required
+          />
+          {mode === 'login' && (
+            <button type="button" className="auth-form__link" onClick={() => switchMode('forgot')}>
+              Forgot password?
+            </button>
+          )}
+        </div>
+      )}
+
+      {notice && <p className="auth-form__notice" role="status">{notice}</p>}
 
-      <button type="submit" disabled={loading} className="btn btn--primary auth-form__submit">
-        {loading ? 'Please wait…' : mode === 'login' ? 'Log in' : 'Create account'}
+      <button type="submit" disabled={loading || sending} className="btn btn--primary auth-form__submit">
+        {loading || sending ? 'Please wait…' : submitLabel}
       </button>
 
       <button
         type="button"
         className="btn btn--ghost auth-form__toggle"
-        onClick={() => { setMode(m => m === 'login' ? 'register' : 'login'); setEmailErr('') }}
+        onClick={() => switchMode(mode === 'login' ? 'register' : 'login')}
       >
         {mode === 'login' ? 'Create account' : 'Back to login'}
       </button>
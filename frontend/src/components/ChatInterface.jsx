@@ -22,11 +22,11 @@ export default function ChatInterface({ messages, input, setInput, sendMessage,
             key={i}
             className={`chat-interface__message chat-interface__message--${msg.role === 'user' ? 'user' : 'assistant'}`}
           >
-            {msg.content}
+            {msg.content || <span className="chat-interface__loading">•••</span>}
           </div>
         ))}
 
-        {loading && (
+        {loading && messages[messages.length - 1]?.role !== 'assistant' && (
           <div className="chat-interface__message chat-interface__message--assistant">
             <span className="chat-interface__loading">•••</span>
           </div>
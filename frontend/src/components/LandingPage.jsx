@@ -29,7 +29,7 @@ const FEATURES = [
   },
 ]
 
-export default function LandingPage({ loading, handleAuth }) {
+export default function LandingPage({ loading, handleAuth, handleForgotPassword }) {
   const authRef = useRef(null)
 
   function scrollToAuth() {
@@ -115,6 +115,7 @@ export default function LandingPage({ loading, handleAuth }) {
           <AuthForm
             loading={loading}
             handleAuth={handleAuth}
+            handleForgotPassword={handleForgotPassword}
             loggedInUserId={null}
             email=""
             handleLogout={() => {}}
@@ -0,0 +1,111 @@
+import { useState } from 'react'
+import './LandingPage.css'
+import './AuthForm.css'
+
+const MIN_PASSWORD_LENGTH = 8
+const MAX_PASSWORD_BYTES  = 72   // bcrypt ignores anything longer
+
+export default function ResetPasswordPage({ resetToken, handleResetPassword, onDone }) {
+  const [password, setPassword] = useState('')
+  const [confirm,  setConfirm]  = useState('')
+  const [error,    setError]    = useState('')
+  const [sending,  setSending]  = useState(false)
+  const [done,     setDone]     = useState(false)
+
+  async function onSubmit(e) {
+    e.preventDefault()
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Use at least ${MIN_PASSWORD_LENGTH} characters.`)
+      return
+    }
+    if (new TextEncoder().encode(password).length > MAX_PASSWORD_BYTES) {
+      setError('That password is too long. Try a shorter one.')
+      return
+    }
+    if (password !== confirm) {
+      setError("The passwords don't match.")
+      return
+    }
+    setError('')
+    setSending(true)
+    const ok = await handleResetPassword(resetToken, password)
+    setSending(false)
+    if (ok) setDone(true)
+  }
+
+  return (
+    <div className="landing">
+      <nav className="landing__nav">
+        <div className="logomark logomark--sm" aria-label="my food. SORTED.">
+          <span className="logomark__top">my food.</span>
+          <span className="logomark__bottom">SORTED.</span>
+        </div>
+      </nav>
+
+      <section className="landing__authSection">
+        <div className="landing__authInner">
+          {!resetToken ? (
+            <div className="auth-form">
+              <h2 className="auth-form__title">Link incomplete</h2>
+              <p className="auth-form__hint">
+                This reset link is missing its code. Request a new one with &ldquo;Forgot password?&rdquo; on the login screen.
+              </p>
+              <button type="button" className="btn btn--primary auth-form__submit" onClick={onDone}>
+                Back to login
+              </button>
+            </div>
+          ) : done ? (
+            <div className="auth-form">
+              <h2 className="auth-form__title">Password changed</h2>
+              <p className="auth-form__notice" role="status">
+                Your password has been reset and you&apos;ve been logged out everywhere. Log in with your new password.
+              </p>
+              <button type="button" className="btn btn--primary auth-form__submit" onClick={onDone}>
+                Go to login
+              </button>
+            </div>
+          ) : (
+            <form className="auth-form" onSubmit={onSubmit} noValidate>
+              <h2 className="auth-form__title">Choose a new password</h2>
+
+              <div className="auth-form__field">
+                <label className="auth-form__label" htmlFor="reset-password">New password</label>
+                <input
+                  id="reset-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={e => { setPassword(e.target.value); setError('') }}
+                  placeholder="••••••••"
+                  required
+                />
+              </div>
+
+              <div className="auth-form__field">
+                <label className="auth-form__label" htmlFor="reset-confirm">Confirm new password</label>
+                <input
+                  id="reset-confirm"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirm}
+                  onChange={e => { setConfirm(e.target.value); setError('') }}
+                  placeholder="••••••••"
+                  required
+                />
+                {error && <p className="auth-form__error">{error}</p>}
+              </div>
+
+              <button type="submit" disabled={sending} className="btn btn--primary auth-form__submit">
+                {sending ? 'Please wait…' : 'Set new password'}
+              </button>
+
+              <button type="button" className="btn btn--ghost auth-form__toggle" onClick={onDone}>
+                Back to login
+              </button>
+            </form>
+          )}
+        </div>
+      </section>
+    </div>
+  )
+}
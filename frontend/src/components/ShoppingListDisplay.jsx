@@ -9,7 +9,10 @@ function ShoppingListDisplay({
   shoppingList,
   savedPlanId,
   generateShoppingList,
+  toggleItem,
   shopNow,
+  retailerLinks,
+  retailers,
   retailer,
   setRetailer,
   loading,
@@ -44,8 +47,18 @@ function ShoppingListDisplay({
           <h3 className="shopping-list-display__categoryTitle">{cat}</h3>
           <ul className="shopping-list-display__list">
             {items.map((item, i) => (
-              <li key={item.id ?? i} className="shopping-list-display__item">
-                {item.ingredient_name} — {item.quantity} {item.unit}
+              <li
+                key={item.id ?? i}
+                className={`shopping-list-display__item${item.checked ? ' shopping-list-display__item--checked' : ''}`}
+              >
+                <label className="shopping-list-display__itemLabel">
+                  <input
+                    type="checkbox"
+                    checked={!!item.checked}
+                    onChange={() => toggleItem(item)}
+                  />
+                  {item.ingredient_name} — {item.quantity} {item.unit}
+                </label>
                 {item.estimated_price != null && (
                   <span className="shopping-list-display__price">
                     {' '}(£{fmtPrice(item.estimated_price)})
@@ -61,25 +74,45 @@ function ShoppingListDisplay({
         <div className="shopping-list-display__retailer">
           <h3 className="shopping-list-display__retailerTitle">Shop at</h3>
           <div className="shopping-list-display__retailerButtons">
-            {['tesco', 'sainsburys'].map((r) => (
+            {retailers.map((r) => (
               <button
-                key={r}
+                key={r.id}
                 type="button"
-                onClick={() => setRetailer(r)}
-                className={`btn ${retailer === r ? 'btn--retailerActive' : 'btn--retailer'}`}
+                onClick={() => setRetailer(r.id)}
+                className={`btn ${retailer === r.id ? 'btn--retailerActive' : 'btn--retailer'}`}
               >
-                {r === 'tesco' ? 'Tesco' : "Sainsbury's"}
+                {r.display_name}
               </button>
             ))}
             <button
               type="button"
               onClick={shopNow}
-              disabled={loading}
+              disabled={loading || !retailer}
               className="btn btn--success"
             >
               Shop now →
             </button>
           </div>
+          {retailerLinks && (
+            retailerLinks.length === 0 ? (
+              <p className="shopping-list-display__linksEmpty">Everything is checked off.</p>
+            ) : (
+              <ul className="shopping-list-display__links">
+                {retailerLinks.map((link) => (
+                  <li key={link.item_id}>
+                    <a
+                      href={link.tracking_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="shopping-list-display__link"
+                    >
+                      {link.search_term}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )
+          )}
         </div>
       )}
     </div>
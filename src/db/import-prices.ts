@@ -0,0 +1,61 @@
+import 'dotenv/config';
+import { Pool } from 'pg';
+import * as fs from 'fs';
+import { findRetailer, listRetailers, type RetailerDefinition } from '../services/retailers';
+import { parsePriceCsv, replaceRetailerCatalogue, type CatalogueProductInput } from '../services/price-catalogue';
+
+/**
+ * Imports a retailer's price catalogue from CSV, replacing whatever was imported for it before.
+ * Usage: npm run import-prices -- <retailer> <file.csv>
+ * Columns: product_name, pack_size, unit, price, and optionally ingredient (what the product matches).
+ * Needs only DATABASE_URL (plus RETAILERS_FILE / ENABLED_RETAILERS if the registry is customised).
+ */
+const DATABASE_URL = process.env.DATABASE_URL;
+
+if (!DATABASE_URL) {
+  console.error('FATAL: DATABASE_URL is required. Set it in .env');
+  process.exit(1);
+}
+
+async function run(retailer: RetailerDefinition, products: CatalogueProductInput[]) {
+  const pool = new Pool({ connectionString: DATABASE_URL });
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const count = await replaceRetailerCatalogue(client, retailer.id, products);
+    await client.query('COMMIT');
+    console.log(`Imported ${count} products for ${retailer.display_name}.`);
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {});
+    console.error('Import failed:', err);
+    process.exitCode = 1;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+function main() {
+  const [retailerArg, csvPath] = process.argv.slice(2);
+  if (!retailerArg || !csvPath) {
+    console.error('Usage: npm run import-prices -- <retailer> <file.csv>');
+    process.exit(1);
+  }
+
+  const retailer = findRetailer(retailerArg);
+  if (!retailer) {
+    console.error(`Unknown retailer "${retailerArg}". Enabled: ${listRetailers().map((r) => r.id).join(', ')}`);
+    process.exit(1);
+  }
+
+  const { products, errors } = parsePriceCsv(fs.readFileSync(csvPath, 'utf8'));
+  if (errors.length > 0) {
+    console.error(`${csvPath} has ${errors.length} problem(s); nothing imported:`);
+    errors.slice(0, 50).forEach((e) => console.error(`  ${e}`));
+    process.exit(1);
+  }
+
+  run(retailer, products);
+}
+
+main();
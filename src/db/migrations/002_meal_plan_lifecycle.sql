@@ -0,0 +1,22 @@
+-- Meal plan lifecycle: status values, week the plan is active for, one active plan per user per week.
+-- New installs use schema.sql which already includes these. Run once per database.
+
+ALTER TABLE meal_plans ADD COLUMN IF NOT EXISTS week_start_date DATE;
+ALTER TABLE meal_plans ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+UPDATE meal_plans SET status = 'draft' WHERE status IS NULL OR status NOT IN ('draft', 'active', 'completed', 'archived');
+ALTER TABLE meal_plans ALTER COLUMN status SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'meal_plans_status_check'
+  ) THEN
+    ALTER TABLE meal_plans ADD CONSTRAINT meal_plans_status_check
+      CHECK (status IN ('draft', 'active', 'completed', 'archived'));
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meal_plans_one_active_per_week
+  ON meal_plans(user_id, week_start_date) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_meal_plans_user_week ON meal_plans(user_id, week_start_date);
@@ -0,0 +1,4 @@
+-- Per-recipe servings so a single recipe can be scaled independently of its meal plan.
+-- NULL means the recipe follows meal_plans.servings. New installs use schema.sql which already includes this.
+
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS servings INT;
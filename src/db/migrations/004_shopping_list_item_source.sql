@@ -0,0 +1,15 @@
+-- Shopping list items record whether they came from the plan's recipes or were added by hand, so
+-- regeneration can update recipe lines in place and keep manual ones and checked state.
+-- New installs use schema.sql which already includes this. Run once per database.
+
+ALTER TABLE shopping_list_items ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'recipe';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'shopping_list_items_source_check'
+  ) THEN
+    ALTER TABLE shopping_list_items ADD CONSTRAINT shopping_list_items_source_check
+      CHECK (source IN ('recipe', 'manual'));
+  END IF;
+END $$;
@@ -0,0 +1,17 @@
+-- Pantry items per user, with optional quantity and expiry date.
+-- New installs use schema.sql which already includes this. Run once per database.
+
+CREATE TABLE IF NOT EXISTS pantry_items (
+  id SERIAL PRIMARY KEY,
+  user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  ingredient_name VARCHAR(255) NOT NULL,
+  quantity DECIMAL(10, 3),
+  unit VARCHAR(50),
+  category VARCHAR(100),
+  expiry_date DATE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_pantry_items_user_id ON pantry_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_pantry_items_user_expiry ON pantry_items(user_id, expiry_date);
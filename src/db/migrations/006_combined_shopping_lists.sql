@@ -0,0 +1,28 @@
+-- Shopping lists become their own entity owned by a user and built from one or more meal plans.
+-- Existing per-plan lists keep meal_plan_id and get a matching row in shopping_list_meal_plans.
+-- New installs use schema.sql which already includes this. Run once per database.
+
+ALTER TABLE shopping_lists ADD COLUMN IF NOT EXISTS user_id INT REFERENCES users(id) ON DELETE CASCADE;
+ALTER TABLE shopping_lists ADD COLUMN IF NOT EXISTS name VARCHAR(255);
+ALTER TABLE shopping_lists ADD COLUMN IF NOT EXISTS date_from DATE;
+ALTER TABLE shopping_lists ADD COLUMN IF NOT EXISTS date_to DATE;
+ALTER TABLE shopping_lists ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+UPDATE shopping_lists sl SET user_id = mp.user_id
+FROM meal_plans mp WHERE mp.id = sl.meal_plan_id AND sl.user_id IS NULL;
+ALTER TABLE shopping_lists ALTER COLUMN user_id SET NOT NULL;
+ALTER TABLE shopping_lists ALTER COLUMN meal_plan_id DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_shopping_lists_user_id ON shopping_lists(user_id);
+
+CREATE TABLE IF NOT EXISTS shopping_list_meal_plans (
+  shopping_list_id INT NOT NULL REFERENCES shopping_lists(id) ON DELETE CASCADE,
+  meal_plan_id INT NOT NULL REFERENCES meal_plans(id) ON DELETE CASCADE,
+  PRIMARY KEY (shopping_list_id, meal_plan_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shopping_list_meal_plans_meal_plan_id ON shopping_list_meal_plans(meal_plan_id);
+
+INSERT INTO shopping_list_meal_plans (shopping_list_id, meal_plan_id)
+SELECT id, meal_plan_id FROM shopping_lists WHERE meal_plan_id IS NOT NULL
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,22 @@
+-- Tracked per-item retailer search links, so we can see which items and retailers users follow through to.
+-- New installs use schema.sql which already includes this. Run once per database.
+
+CREATE TABLE IF NOT EXISTS retailer_links (
+  id SERIAL PRIMARY KEY,
+  user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  shopping_list_id INT REFERENCES shopping_lists(id) ON DELETE SET NULL,
+  shopping_list_item_id INT REFERENCES shopping_list_items(id) ON DELETE SET NULL,
+  retailer VARCHAR(50) NOT NULL,
+  ingredient_name VARCHAR(255) NOT NULL,
+  search_term VARCHAR(255) NOT NULL,
+  url TEXT NOT NULL,
+  token VARCHAR(64) NOT NULL UNIQUE,
+  click_count INT NOT NULL DEFAULT 0,
+  first_clicked_at TIMESTAMP,
+  last_clicked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_retailer_links_user_id ON retailer_links(user_id);
+CREATE INDEX IF NOT EXISTS idx_retailer_links_shopping_list_id ON retailer_links(shopping_list_id);
+CREATE INDEX IF NOT EXISTS idx_retailer_links_retailer_clicked ON retailer_links(retailer, first_clicked_at);
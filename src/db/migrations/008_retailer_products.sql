@@ -0,0 +1,15 @@
+-- Retailer price catalogue: products imported from CSV per retailer, used to price shopping lists.
+-- New installs use schema.sql which already includes this. Run once per database.
+
+CREATE TABLE IF NOT EXISTS retailer_products (
+  id SERIAL PRIMARY KEY,
+  retailer VARCHAR(50) NOT NULL,
+  product_name VARCHAR(255) NOT NULL,
+  match_name VARCHAR(255) NOT NULL,
+  pack_size DECIMAL(10, 3) NOT NULL CHECK (pack_size > 0),
+  unit VARCHAR(50) NOT NULL,
+  price DECIMAL(10, 2) NOT NULL CHECK (price >= 0),
+  imported_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_retailer_products_retailer ON retailer_products(retailer);
@@ -0,0 +1,26 @@
+-- Weekly spending history: a snapshot of each completed plan's cost against the budget at the time.
+-- Plans already completed are backfilled with the user's current budget.
+-- New installs use schema.sql which already includes this. Run once per database.
+
+CREATE TABLE IF NOT EXISTS weekly_spending (
+  id SERIAL PRIMARY KEY,
+  user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  meal_plan_id INT UNIQUE REFERENCES meal_plans(id) ON DELETE SET NULL,
+  week_start_date DATE NOT NULL,
+  plan_name VARCHAR(255),
+  weekly_budget DECIMAL(10, 2),
+  planned_cost DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  shopping_cost DECIMAL(10, 2),
+  completed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_weekly_spending_user_week ON weekly_spending(user_id, week_start_date);
+
+INSERT INTO weekly_spending (user_id, meal_plan_id, week_start_date, plan_name, weekly_budget, planned_cost, shopping_cost, completed_at)
+SELECT mp.user_id, mp.id, mp.week_start_date, mp.plan_name, u.default_budget, COALESCE(mp.total_estimated_cost, 0), sl.total_cost,
+       mp.status_updated_at
+FROM meal_plans mp
+JOIN users u ON u.id = mp.user_id
+LEFT JOIN shopping_lists sl ON sl.meal_plan_id = mp.id
+WHERE mp.status = 'completed' AND mp.week_start_date IS NOT NULL
+ON CONFLICT (meal_plan_id) DO NOTHING;
@@ -0,0 +1,11 @@
+-- Per-user daily nutrition targets, compared against meal plan days.
+-- New installs use schema.sql which already includes this. Run once per database.
+
+CREATE TABLE IF NOT EXISTS nutrition_targets (
+  user_id INT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  calories INT,
+  protein DECIMAL(10, 1),
+  carbs DECIMAL(10, 1),
+  fat DECIMAL(10, 1),
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,42 @@
+-- Per-user recipe library: recipes saved from plans (copies, so they outlive the plan) with
+-- favourite flag, rating, tags and notes, reusable when building new plans.
+-- New installs use schema.sql which already includes this. Run once per database.
+
+CREATE TABLE IF NOT EXISTS library_recipes (
+  id SERIAL PRIMARY KEY,
+  user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  source_recipe_id INT REFERENCES recipes(id) ON DELETE SET NULL,
+  title VARCHAR(255) NOT NULL,
+  instructions TEXT,
+  prep_time INT,
+  cook_time INT,
+  estimated_cost DECIMAL(10, 2),
+  calories INT,
+  protein DECIMAL(10, 2),
+  carbs DECIMAL(10, 2),
+  fat DECIMAL(10, 2),
+  servings INT NOT NULL DEFAULT 1,
+  favourite BOOLEAN NOT NULL DEFAULT FALSE,
+  rating SMALLINT CHECK (rating BETWEEN 1 AND 5),
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  times_used INT NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_library_recipes_user_title ON library_recipes(user_id, lower(title));
+CREATE INDEX IF NOT EXISTS idx_library_recipes_tags ON library_recipes USING GIN (tags);
+
+CREATE TABLE IF NOT EXISTS library_recipe_ingredients (
+  id SERIAL PRIMARY KEY,
+  library_recipe_id INT NOT NULL REFERENCES library_recipes(id) ON DELETE CASCADE,
+  ingredient_name VARCHAR(255) NOT NULL,
+  quantity DECIMAL(10, 3),
+  unit VARCHAR(50),
+  category VARCHAR(100),
+  estimated_price DECIMAL(10, 2)
+);
+
+CREATE INDEX IF NOT EXISTS idx_library_recipe_ingredients_recipe ON library_recipe_ingredients(library_recipe_id);
@@ -0,0 +1,21 @@
+-- Conversations: one row per client-chosen conversation_id, holding its title, and the conversation a
+-- meal plan was saved from. Existing chat history is backfilled.
+-- New installs use schema.sql which already includes this. Run once per database.
+
+CREATE TABLE IF NOT EXISTS conversations (
+  user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  conversation_id VARCHAR(100) NOT NULL,
+  title VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, conversation_id)
+);
+
+INSERT INTO conversations (user_id, conversation_id, created_at)
+SELECT user_id, conversation_id, MIN(timestamp)
+FROM chat_messages
+GROUP BY user_id, conversation_id
+ON CONFLICT (user_id, conversation_id) DO NOTHING;
+
+ALTER TABLE meal_plans ADD COLUMN IF NOT EXISTS conversation_id VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_meal_plans_user_conversation ON meal_plans(user_id, conversation_id);
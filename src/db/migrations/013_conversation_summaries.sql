@@ -0,0 +1,7 @@
+-- Running summary per conversation: older messages are summarised once they no longer fit the
+-- chat history token budget, and the summary is sent in their place.
+-- New installs use schema.sql which already includes this. Run once per database.
+
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary TEXT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary_through_message_id INT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary_updated_at TIMESTAMP;
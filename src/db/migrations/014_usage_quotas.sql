@@ -0,0 +1,15 @@
+-- Usage tiers and per-window quotas: users.usage_tier picks the tier, usage_windows counts messages and
+-- Claude tokens per daily or monthly window. users.message_count becomes a lifetime total.
+-- New installs use schema.sql which already includes this. Run once per database.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS usage_tier VARCHAR(50) NOT NULL DEFAULT 'free';
+
+CREATE TABLE IF NOT EXISTS usage_windows (
+  user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  quota_window VARCHAR(10) NOT NULL,
+  window_start DATE NOT NULL,
+  message_count INT NOT NULL DEFAULT 0,
+  input_tokens INT NOT NULL DEFAULT 0,
+  output_tokens INT NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, quota_window, window_start)
+);
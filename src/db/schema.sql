@@ -10,13 +10,59 @@ CREATE TABLE users (
   allergies TEXT,
   household_size INT DEFAULT 1,
   default_budget DECIMAL(10, 2),
+  -- Lifetime Claude requests; quotas are counted per window in usage_windows.
   message_count INT DEFAULT 0,
+  -- Usage tier id (see src/services/usage.ts); sets the quota window and limits.
+  usage_tier VARCHAR(50) NOT NULL DEFAULT 'free',
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
 CREATE INDEX idx_users_email ON users(email);
 CREATE INDEX idx_users_created_at ON users(created_at);
 
+-- Login sessions: refresh tokens are stored hashed and rotated on every refresh; access tokens carry
+-- the session id, so revoking a session logs it out immediately
+CREATE TABLE sessions (
+  id SERIAL PRIMARY KEY,
+  user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  refresh_token_hash CHAR(64) NOT NULL UNIQUE,
+  -- The token it replaced; presenting it again means the token was copied and revokes the session.
+  previous_token_hash CHAR(64),
+  user_agent VARCHAR(255),
+  ip_address VARCHAR(64),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP
+);
+
+CREATE INDEX idx_sessions_user_id ON sessions(user_id);
+CREATE INDEX idx_sessions_previous_token_hash ON sessions(previous_token_hash);
+
+-- Password reset tokens: stored hashed, single use (used_at), expiring
+CREATE TABLE password_reset_tokens (
+  id SERIAL PRIMARY KEY,
+  user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  requested_ip VARCHAR(64),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP
+);
+
+CREATE INDEX idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
+
+-- Messages and Claude tokens used per quota window ('daily' or 'monthly', starting on window_start, UTC)
+CREATE TABLE usage_windows (
+  user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  quota_window VARCHAR(10) NOT NULL,
+  window_start DATE NOT NULL,
+  message_count INT NOT NULL DEFAULT 0,
+  input_tokens INT NOT NULL DEFAULT 0,
+  output_tokens INT NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, quota_window, window_start)
+);
+
 -- Chat messages
 CREATE TABLE chat_messages (
   id SERIAL PRIMARY KEY,
@@ -32,6 +78,19 @@ CREATE INDEX idx_chat_messages_conversation_id ON chat_messages(conversation_id)
 CREATE INDEX idx_chat_messages_conversation_user ON chat_messages(conversation_id, user_id);
 CREATE INDEX idx_chat_messages_timestamp ON chat_messages(timestamp);
 
+-- Conversations (title and metadata for each conversation_id used in chat_messages)
+CREATE TABLE conversations (
+  user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  conversation_id VARCHAR(100) NOT NULL,
+  title VARCHAR(255),
+  -- Running summary of the messages up to summary_through_message_id, sent instead of those messages.
+  summary TEXT,
+  summary_through_message_id INT,
+  summary_updated_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, conversation_id)
+);
+
 -- Meal plans
 CREATE TABLE meal_plans (
   id SERIAL PRIMARY KEY,
@@ -39,13 +98,22 @@ CREATE TABLE meal_plans (
   plan_name VARCHAR(255),
   total_estimated_cost DECIMAL(10, 2),
   servings INT,
-  status VARCHAR(50) DEFAULT 'draft',
+  status VARCHAR(50) NOT NULL DEFAULT 'draft'
+    CONSTRAINT meal_plans_status_check CHECK (status IN ('draft', 'active', 'completed', 'archived')),
+  week_start_date DATE,
+  status_updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  -- Conversation the plan was saved from, if any (conversations.conversation_id for the same user).
+  conversation_id VARCHAR(100),
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
 CREATE INDEX idx_meal_plans_user_id ON meal_plans(user_id);
 CREATE INDEX idx_meal_plans_status ON meal_plans(status);
 CREATE INDEX idx_meal_plans_created_at ON meal_plans(created_at);
+CREATE INDEX idx_meal_plans_user_week ON meal_plans(user_id, week_start_date);
+CREATE INDEX idx_meal_plans_user_conversation ON meal_plans(user_id, conversation_id);
+-- At most one active plan per user per week
+CREATE UNIQUE INDEX idx_meal_plans_one_active_per_week ON meal_plans(user_id, week_start_date) WHERE status = 'active';
 
 -- Recipes (linked to meal plans)
 CREATE TABLE recipes (
@@ -61,7 +129,9 @@ CREATE TABLE recipes (
   calories INT,
   protein DECIMAL(10, 2),
   carbs DECIMAL(10, 2),
-  fat DECIMAL(10, 2)
+  fat DECIMAL(10, 2),
+  -- Servings this recipe's quantities are for; NULL means the meal plan's servings
+  servings INT
 );
 
 CREATE INDEX idx_recipes_meal_plan_id ON recipes(meal_plan_id);
@@ -81,16 +151,33 @@ CREATE TABLE ingredients (
 CREATE INDEX idx_ingredients_recipe_id ON ingredients(recipe_id);
 CREATE INDEX idx_ingredients_category ON ingredients(category);
 
--- Shopping lists (linked to meal plans; one list per plan for ON CONFLICT upsert)
+-- Shopping lists. meal_plan_id is set (and unique, for ON CONFLICT upsert) on the per-plan list;
+-- combined lists leave it NULL and record their plans in shopping_list_meal_plans.
 CREATE TABLE shopping_lists (
   id SERIAL PRIMARY KEY,
-  meal_plan_id INT NOT NULL UNIQUE REFERENCES meal_plans(id) ON DELETE CASCADE,
+  user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  meal_plan_id INT UNIQUE REFERENCES meal_plans(id) ON DELETE CASCADE,
+  name VARCHAR(255),
+  -- Set on lists built from the active plans in a date range
+  date_from DATE,
+  date_to DATE,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   total_cost DECIMAL(10, 2)
 );
 
 CREATE INDEX idx_shopping_lists_meal_plan_id ON shopping_lists(meal_plan_id);
 CREATE INDEX idx_shopping_lists_created_at ON shopping_lists(created_at);
+CREATE INDEX idx_shopping_lists_user_id ON shopping_lists(user_id);
+
+-- Plans a shopping list is built from
+CREATE TABLE shopping_list_meal_plans (
+  shopping_list_id INT NOT NULL REFERENCES shopping_lists(id) ON DELETE CASCADE,
+  meal_plan_id INT NOT NULL REFERENCES meal_plans(id) ON DELETE CASCADE,
+  PRIMARY KEY (shopping_list_id, meal_plan_id)
+);
+
+CREATE INDEX idx_shopping_list_meal_plans_meal_plan_id ON shopping_list_meal_plans(meal_plan_id);
 
 -- Shopping list items
 CREATE TABLE shopping_list_items (
@@ -101,8 +188,130 @@ CREATE TABLE shopping_list_items (
   unit VARCHAR(50),
   category VARCHAR(100),
   estimated_price DECIMAL(10, 2),
-  checked BOOLEAN DEFAULT FALSE
+  checked BOOLEAN DEFAULT FALSE,
+  -- 'recipe' lines are rebuilt from the plan on regeneration; 'manual' lines are added by the user
+  source VARCHAR(20) NOT NULL DEFAULT 'recipe'
+    CONSTRAINT shopping_list_items_source_check CHECK (source IN ('recipe', 'manual'))
 );
 
 CREATE INDEX idx_shopping_list_items_shopping_list_id ON shopping_list_items(shopping_list_id);
 CREATE INDEX idx_shopping_list_items_checked ON shopping_list_items(checked);
+
+-- Pantry: ingredients a user already has; subtracted from shopping lists
+CREATE TABLE pantry_items (
+  id SERIAL PRIMARY KEY,
+  user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  ingredient_name VARCHAR(255) NOT NULL,
+  quantity DECIMAL(10, 3),
+  unit VARCHAR(50),
+  category VARCHAR(100),
+  expiry_date DATE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_pantry_items_user_id ON pantry_items(user_id);
+CREATE INDEX idx_pantry_items_user_expiry ON pantry_items(user_id, expiry_date);
+
+-- Tracked retailer search links for shopping list items
+CREATE TABLE retailer_links (
+  id SERIAL PRIMARY KEY,
+  user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  shopping_list_id INT REFERENCES shopping_lists(id) ON DELETE SET NULL,
+  shopping_list_item_id INT REFERENCES shopping_list_items(id) ON DELETE SET NULL,
+  retailer VARCHAR(50) NOT NULL,
+  ingredient_name VARCHAR(255) NOT NULL,
+  search_term VARCHAR(255) NOT NULL,
+  url TEXT NOT NULL,
+  token VARCHAR(64) NOT NULL UNIQUE,
+  click_count INT NOT NULL DEFAULT 0,
+  first_clicked_at TIMESTAMP,
+  last_clicked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_retailer_links_user_id ON retailer_links(user_id);
+CREATE INDEX idx_retailer_links_shopping_list_id ON retailer_links(shopping_list_id);
+CREATE INDEX idx_retailer_links_retailer_clicked ON retailer_links(retailer, first_clicked_at);
+
+-- Recipe library: per-user copies of recipes, kept independently of the plan they came from
+CREATE TABLE library_recipes (
+  id SERIAL PRIMARY KEY,
+  user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  source_recipe_id INT REFERENCES recipes(id) ON DELETE SET NULL,
+  title VARCHAR(255) NOT NULL,
+  instructions TEXT,
+  prep_time INT,
+  cook_time INT,
+  estimated_cost DECIMAL(10, 2),
+  calories INT,
+  protein DECIMAL(10, 2),
+  carbs DECIMAL(10, 2),
+  fat DECIMAL(10, 2),
+  -- Servings the quantities and cost are for; scaled to the plan's servings when reused
+  servings INT NOT NULL DEFAULT 1,
+  favourite BOOLEAN NOT NULL DEFAULT FALSE,
+  rating SMALLINT CHECK (rating BETWEEN 1 AND 5),
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  times_used INT NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX idx_library_recipes_user_title ON library_recipes(user_id, lower(title));
+CREATE INDEX idx_library_recipes_tags ON library_recipes USING GIN (tags);
+
+CREATE TABLE library_recipe_ingredients (
+  id SERIAL PRIMARY KEY,
+  library_recipe_id INT NOT NULL REFERENCES library_recipes(id) ON DELETE CASCADE,
+  ingredient_name VARCHAR(255) NOT NULL,
+  quantity DECIMAL(10, 3),
+  unit VARCHAR(50),
+  category VARCHAR(100),
+  estimated_price DECIMAL(10, 2)
+);
+
+CREATE INDEX idx_library_recipe_ingredients_recipe ON library_recipe_ingredients(library_recipe_id);
+
+-- Daily nutrition targets per person; NULL = no target for that nutrient
+CREATE TABLE nutrition_targets (
+  user_id INT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  calories INT,
+  protein DECIMAL(10, 1),
+  carbs DECIMAL(10, 1),
+  fat DECIMAL(10, 1),
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Weekly spending history, snapshotted when a plan is completed
+CREATE TABLE weekly_spending (
+  id SERIAL PRIMARY KEY,
+  user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  meal_plan_id INT UNIQUE REFERENCES meal_plans(id) ON DELETE SET NULL,
+  week_start_date DATE NOT NULL,
+  plan_name VARCHAR(255),
+  -- users.default_budget when the plan was completed
+  weekly_budget DECIMAL(10, 2),
+  planned_cost DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  shopping_cost DECIMAL(10, 2),
+  completed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_weekly_spending_user_week ON weekly_spending(user_id, week_start_date);
+
+-- Retailer price catalogue, imported from CSV per retailer (src/db/import-prices.ts)
+CREATE TABLE retailer_products (
+  id SERIAL PRIMARY KEY,
+  retailer VARCHAR(50) NOT NULL,
+  product_name VARCHAR(255) NOT NULL,
+  -- normalised ingredient name the product is matched on
+  match_name VARCHAR(255) NOT NULL,
+  pack_size DECIMAL(10, 3) NOT NULL CHECK (pack_size > 0),
+  unit VARCHAR(50) NOT NULL,
+  price DECIMAL(10, 2) NOT NULL CHECK (price >= 0),
+  imported_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_retailer_products_retailer ON retailer_products(retailer);
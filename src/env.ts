@@ -0,0 +1,26 @@
+/**
+ * Environment readers shared by config.ts and the narrower settings modules that scripts import
+ * without pulling in the server's required secrets.
+ */
+export function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (value == null || value.trim() === '') {
+    console.error(`FATAL: ${name} is required. Set it in .env (and never commit real secrets).`);
+    process.exit(1);
+  }
+  return value.trim();
+}
+
+export function optionalEnv(name: string, defaultValue: string): string {
+  const value = process.env[name];
+  return value != null && value.trim() !== '' ? value.trim() : defaultValue;
+}
+
+export function enumEnv<T extends string>(name: string, allowed: readonly T[], defaultValue: T): T {
+  const value = optionalEnv(name, defaultValue);
+  if (!(allowed as readonly string[]).includes(value)) {
+    console.error(`FATAL: ${name} must be one of: ${allowed.join(', ')}.`);
+    process.exit(1);
+  }
+  return value as T;
+}
@@ -0,0 +1,117 @@
+import { config } from '../config';
+import type { LLMCompletion, LLMMessage, LLMProvider, LLMUsage } from './types';
+
+const ANTHROPIC_MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+
+interface ClaudeUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface ClaudeResponse {
+  content: Array<{ type: string; text?: string }>;
+  stop_reason?: string;
+  usage?: ClaudeUsage;
+}
+
+interface ClaudeStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  error?: { type: string; message: string };
+  /** message_start carries the input tokens; message_delta the running output total. */
+  message?: { usage?: ClaudeUsage };
+  usage?: ClaudeUsage;
+}
+
+function requestInit(messages: LLMMessage[], systemPrompt: string, stream: boolean, signal?: AbortSignal): RequestInit {
+  return {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': config.CLAUDE_API_KEY,
+      'anthropic-version': '2023-06-01',
+    },
+    body: JSON.stringify({
+      model: config.CLAUDE_MODEL,
+      max_tokens: config.CLAUDE_MAX_TOKENS,
+      system: systemPrompt,
+      ...(stream && { stream: true }),
+      messages: messages.map((m) => ({
+        role: m.role,
+        content: m.content,
+      })),
+    }),
+    signal,
+  };
+}
+
+/** Anthropic Messages API over fetch. */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+
+  async complete(messages: LLMMessage[], systemPrompt: string): Promise<LLMCompletion> {
+    const response = await fetch(ANTHROPIC_MESSAGES_URL, requestInit(messages, systemPrompt, false));
+
+    if (!response.ok) {
+      const errText = await response.text();
+      throw new Error(`Claude API error ${response.status}: ${errText}`);
+    }
+
+    const data = (await response.json()) as ClaudeResponse;
+    const textContent = data.content?.find((c) => c.type === 'text');
+    return {
+      text: textContent?.text ?? '',
+      usage: { input_tokens: data.usage?.input_tokens ?? 0, output_tokens: data.usage?.output_tokens ?? 0 },
+    };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    systemPrompt: string,
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMCompletion> {
+    const response = await fetch(ANTHROPIC_MESSAGES_URL, requestInit(messages, systemPrompt, true, signal));
+
+    if (!response.ok || !response.body) {
+      const errText = await response.text();
+      throw new Error(`Claude API error ${response.status}: ${errText}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let fullText = '';
+    const usage: LLMUsage = { input_tokens: 0, output_tokens: 0 };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      // SSE events are separated by a blank line; keep any trailing partial event in the buffer.
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const dataLine = rawEvent.split('\n').find((line) => line.startsWith('data:'));
+        if (!dataLine) continue;
+
+        const event = JSON.parse(dataLine.slice(5).trim()) as ClaudeStreamEvent;
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+          fullText += event.delta.text;
+          onDelta(event.delta.text);
+        } else if (event.type === 'message_start') {
+          usage.input_tokens = event.message?.usage?.input_tokens ?? 0;
+          usage.output_tokens = event.message?.usage?.output_tokens ?? 0;
+        } else if (event.type === 'message_delta' && event.usage?.output_tokens != null) {
+          usage.output_tokens = event.usage.output_tokens;
+        } else if (event.type === 'error') {
+          throw new Error(`Claude API stream error: ${event.error?.message ?? 'unknown'}`);
+        }
+      }
+    }
+
+    return { text: fullText, usage };
+  }
+}
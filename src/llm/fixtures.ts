@@ -0,0 +1,106 @@
+/** Canned responses for the stub provider (LLM_PROVIDER=stub). */
+
+export const STUB_MEAL_PLAN = {
+  plan_name: 'Simple 3-Day Dinners',
+  servings: 2,
+  recipes: [
+    {
+      day_of_week: 'Monday',
+      meal_slot: 'dinner',
+      title: 'Red Lentil Dal',
+      instructions: 'Fry onion and garlic, add spices and lentils, cover with stock and simmer for 20 minutes. Serve with rice.',
+      prep_time: 10,
+      cook_time: 25,
+      estimated_cost: 3.2,
+      calories: 520,
+      protein: 24,
+      carbs: 82,
+      fat: 9,
+      ingredients: [
+        { ingredient_name: 'red lentils', quantity: 200, unit: 'g', category: 'Dry goods', estimated_price: 0.8 },
+        { ingredient_name: 'onion', quantity: 1, unit: 'whole', category: 'Vegetables', estimated_price: 0.2 },
+        { ingredient_name: 'garlic', quantity: 2, unit: 'clove', category: 'Vegetables', estimated_price: 0.1 },
+        { ingredient_name: 'basmati rice', quantity: 150, unit: 'g', category: 'Dry goods', estimated_price: 0.5 },
+        { ingredient_name: 'vegetable stock', quantity: 500, unit: 'ml', category: 'Cupboard', estimated_price: 0.3 },
+      ],
+    },
+    {
+      day_of_week: 'Tuesday',
+      meal_slot: 'dinner',
+      title: 'Chicken and Vegetable Traybake',
+      instructions: 'Toss chicken thighs, potatoes, peppers and onion in oil and paprika. Roast at 200C for 40 minutes.',
+      prep_time: 15,
+      cook_time: 40,
+      estimated_cost: 5.5,
+      calories: 610,
+      protein: 38,
+      carbs: 45,
+      fat: 28,
+      ingredients: [
+        { ingredient_name: 'chicken thighs', quantity: 500, unit: 'g', category: 'Meat', estimated_price: 3.0 },
+        { ingredient_name: 'potatoes', quantity: 400, unit: 'g', category: 'Vegetables', estimated_price: 0.6 },
+        { ingredient_name: 'red pepper', quantity: 2, unit: 'whole', category: 'Vegetables', estimated_price: 1.0 },
+        { ingredient_name: 'onion', quantity: 1, unit: 'whole', category: 'Vegetables', estimated_price: 0.2 },
+        { ingredient_name: 'olive oil', quantity: 2, unit: 'tbsp', category: 'Cupboard', estimated_price: 0.2 },
+      ],
+    },
+    {
+      day_of_week: 'Wednesday',
+      meal_slot: 'dinner',
+      title: 'Tomato and Spinach Pasta',
+      instructions: 'Cook pasta. Meanwhile soften garlic in oil, add chopped tomatoes and simmer, then stir in spinach.',
+      prep_time: 5,
+      cook_time: 15,
+      estimated_cost: 2.6,
+      calories: 480,
+      protein: 16,
+      carbs: 86,
+      fat: 8,
+      ingredients: [
+        { ingredient_name: 'penne pasta', quantity: 200, unit: 'g', category: 'Dry goods', estimated_price: 0.4 },
+        { ingredient_name: 'chopped tomatoes', quantity: 400, unit: 'g', category: 'Cupboard', estimated_price: 0.5 },
+        { ingredient_name: 'spinach', quantity: 100, unit: 'g', category: 'Vegetables', estimated_price: 1.0 },
+        { ingredient_name: 'garlic', quantity: 2, unit: 'clove', category: 'Vegetables', estimated_price: 0.1 },
+      ],
+    },
+  ],
+};
+
+export const STUB_MEAL_PLAN_RESPONSE = `Here's a simple, budget-friendly plan for three dinners.
+
+\`\`\`json
+${JSON.stringify(STUB_MEAL_PLAN, null, 2)}
+\`\`\`
+
+Let me know if you'd like to swap anything.`;
+
+/** Single replacement recipe returned for "swap this meal" requests. */
+export const STUB_SWAP_RECIPE = {
+  title: 'Chickpea and Sweet Potato Curry',
+  instructions: 'Soften onion and garlic with curry powder, add diced sweet potato, chickpeas and chopped tomatoes. Simmer for 25 minutes.',
+  prep_time: 10,
+  cook_time: 25,
+  estimated_cost: 2.4,
+  calories: 500,
+  protein: 17,
+  carbs: 80,
+  fat: 10,
+  ingredients: [
+    { ingredient_name: 'chickpeas', quantity: 400, unit: 'g', category: 'Cupboard', estimated_price: 0.6 },
+    { ingredient_name: 'sweet potato', quantity: 400, unit: 'g', category: 'Vegetables', estimated_price: 0.8 },
+    { ingredient_name: 'chopped tomatoes', quantity: 400, unit: 'g', category: 'Cupboard', estimated_price: 0.5 },
+    { ingredient_name: 'onion', quantity: 1, unit: 'whole', category: 'Vegetables', estimated_price: 0.2 },
+    { ingredient_name: 'curry powder', quantity: 1, unit: 'tbsp', category: 'Cupboard', estimated_price: 0.3 },
+  ],
+};
+
+export const STUB_SWAP_RESPONSE = `\`\`\`json
+${JSON.stringify({ recipes: [STUB_SWAP_RECIPE] }, null, 2)}
+\`\`\``;
+
+export function stubConversationalResponse(userMessage: string): string {
+  return `(offline stub) You said: "${userMessage.slice(0, 200)}". Ask for a meal plan to get a canned plan back.`;
+}
+
+export const STUB_SUMMARY_RESPONSE =
+  '(offline stub) Summary: the user asked for meal plans and the assistant proposed some; no preferences recorded.';
@@ -0,0 +1,21 @@
+import * as fs from 'fs';
+import { config } from '../config';
+import { AnthropicProvider } from './anthropic';
+import { StubProvider } from './stub';
+import type { LLMProvider } from './types';
+
+export type { LLMCompletion, LLMMessage, LLMProvider, LLMUsage } from './types';
+
+/** Builds the provider named by LLM_PROVIDER. */
+export function createLLMProvider(): LLMProvider {
+  switch (config.LLM_PROVIDER) {
+    case 'anthropic':
+      return new AnthropicProvider();
+    case 'stub':
+      return new StubProvider(
+        config.LLM_STUB_FIXTURE ? fs.readFileSync(config.LLM_STUB_FIXTURE, 'utf8') : null
+      );
+    default:
+      throw new Error(`Unknown LLM provider: ${config.LLM_PROVIDER}`);
+  }
+}
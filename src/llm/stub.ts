@@ -0,0 +1,58 @@
+import type { LLMCompletion, LLMMessage, LLMProvider, LLMUsage } from './types';
+import {
+  STUB_MEAL_PLAN_RESPONSE,
+  STUB_SUMMARY_RESPONSE,
+  STUB_SWAP_RESPONSE,
+  stubConversationalResponse,
+} from './fixtures';
+
+const MEAL_PLAN_REQUEST = /\b(meal|meals|plan|recipe|recipes|breakfast|lunch|dinner|dinners|week|menu|replace)\b/i;
+const SWAP_REQUEST = /^Replace (one recipe|the most expensive recipes) in my meal plan/;
+const SUMMARY_REQUEST = /^Summarise the conversation so far/;
+const STREAM_CHUNK_SIZE = 40;
+const CHARS_PER_TOKEN = 4;
+
+/** Usage estimated from text length, so quota accounting behaves offline much as it does against Claude. */
+function estimateUsage(messages: LLMMessage[], systemPrompt: string, text: string): LLMUsage {
+  const inputChars = messages.reduce((sum, m) => sum + m.content.length, systemPrompt.length);
+  return { input_tokens: Math.ceil(inputChars / CHARS_PER_TOKEN), output_tokens: Math.ceil(text.length / CHARS_PER_TOKEN) };
+}
+
+/**
+ * Deterministic offline provider. Returns the fixture text if one is configured; otherwise a canned
+ * meal plan for anything that looks like a planning request, a single recipe for meal swaps and
+ * make-it-cheaper requests, a fixed summary for history summaries, and a short echo for everything else.
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub';
+
+  constructor(private readonly fixtureText: string | null = null) {}
+
+  private respond(messages: LLMMessage[]): string {
+    if (this.fixtureText != null) return this.fixtureText;
+    if (SWAP_REQUEST.test(messages[0]?.content ?? '')) return STUB_SWAP_RESPONSE;
+    if (SUMMARY_REQUEST.test(messages[0]?.content ?? '')) return STUB_SUMMARY_RESPONSE;
+    const lastUser = [...messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+    return MEAL_PLAN_REQUEST.test(lastUser) ? STUB_MEAL_PLAN_RESPONSE : stubConversationalResponse(lastUser);
+  }
+
+  async complete(messages: LLMMessage[], systemPrompt: string): Promise<LLMCompletion> {
+    const text = this.respond(messages);
+    return { text, usage: estimateUsage(messages, systemPrompt, text) };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    systemPrompt: string,
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMCompletion> {
+    const text = this.respond(messages);
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      if (signal?.aborted) throw new Error('Stream aborted');
+      onDelta(text.slice(i, i + STREAM_CHUNK_SIZE));
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    return { text, usage: estimateUsage(messages, systemPrompt, text) };
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Provider-agnostic LLM interface. callClaudeAPI/streamClaudeAPI in server.ts delegate to the
+ * provider selected by LLM_PROVIDER, so the server can run offline against the stub.
+ */
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** Tokens a request was billed for, as reported by the provider. */
+export interface LLMUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface LLMCompletion {
+  text: string;
+  usage: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  /** Returns the full assistant text for the conversation. */
+  complete(messages: LLMMessage[], systemPrompt: string): Promise<LLMCompletion>;
+  /** Calls onDelta for each chunk of text as it is generated and resolves with the full text. */
+  stream(
+    messages: LLMMessage[],
+    systemPrompt: string,
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMCompletion>;
+}
@@ -0,0 +1,18 @@
+import type { MailMessage, Mailer } from './types';
+
+/** Development transport: prints each message to stdout instead of sending it. */
+export class ConsoleMailer implements Mailer {
+  readonly name = 'console';
+
+  constructor(private readonly from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`--- mail (not sent) ---
+From: ${this.from}
+To: ${message.to}
+Subject: ${message.subject}
+
+${message.text}
+--- end mail ---`);
+  }
+}
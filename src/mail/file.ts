@@ -0,0 +1,31 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { MailMessage, Mailer } from './types';
+
+/** Development transport: writes each message to a .eml file in MAIL_FILE_DIR instead of sending it. */
+export class FileMailer implements Mailer {
+  readonly name = 'file';
+  private sequence = 0;
+
+  constructor(
+    private readonly from: string,
+    private readonly dir: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const file = path.join(this.dir, `${stamp}-${++this.sequence}.eml`);
+    const eml = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+      '',
+    ].join('\r\n');
+    await fs.writeFile(file, eml, 'utf8');
+  }
+}
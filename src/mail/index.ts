@@ -0,0 +1,21 @@
+import { config } from '../config';
+import { ConsoleMailer } from './console';
+import { FileMailer } from './file';
+import { SmtpMailer } from './smtp';
+import type { Mailer } from './types';
+
+export type { MailMessage, Mailer } from './types';
+
+/** Builds the mailer named by MAIL_TRANSPORT. */
+export function createMailer(): Mailer {
+  switch (config.MAIL_TRANSPORT) {
+    case 'console':
+      return new ConsoleMailer(config.MAIL_FROM);
+    case 'file':
+      return new FileMailer(config.MAIL_FROM, config.MAIL_FILE_DIR);
+    case 'smtp':
+      return new SmtpMailer(config.MAIL_FROM, config.SMTP_URL);
+    default:
+      throw new Error(`Unknown mail transport: ${config.MAIL_TRANSPORT}`);
+  }
+}
@@ -0,0 +1,19 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { MailMessage, Mailer } from './types';
+
+/** Delivers mail through an SMTP server (any provider's SMTP relay), configured by SMTP_URL. */
+export class SmtpMailer implements Mailer {
+  readonly name = 'smtp';
+  private readonly transport: Transporter;
+
+  constructor(
+    private readonly from: string,
+    smtpUrl: string
+  ) {
+    this.transport = nodemailer.createTransport(smtpUrl);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.sendMail({ from: this.from, to: message.to, subject: message.subject, text: message.text });
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Provider-agnostic mail interface. Account emails (password reset, email change) go through the
+ * mailer selected by MAIL_TRANSPORT: SMTP in production, console or file so development needs no
+ * mail server.
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  /** Plain text body. */
+  text: string;
+}
+
+export interface Mailer {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
@@ -5,25 +5,45 @@ import { config } from '../config';
 export interface JwtPayload {
   userId: number;
   email: string;
+  /** sessions.id of the login this access token belongs to. */
+  sessionId: number;
 }
 
 export interface AuthenticatedRequest extends Request {
   user?: JwtPayload;
 }
 
-export function authenticateToken(
-  req: AuthenticatedRequest,
-  res: Response,
-  next: NextFunction
-) {
-  const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1];
-
-  if (token == null) return res.sendStatus(401);
-
-  jwt.verify(token, config.JWT_SECRET, (err, decoded) => {
-    if (err) return res.sendStatus(401);
-    req.user = decoded as JwtPayload;
-    next();
-  });
+/** Resolves true while the session has not been revoked or expired. */
+export type SessionCheck = (sessionId: number, userId: number) => Promise<boolean>;
+
+/** Short-lived access token; clients renew it with the session's refresh token. */
+export function signAccessToken(payload: JwtPayload): string {
+  return jwt.sign(payload, config.JWT_SECRET, { expiresIn: config.ACCESS_TOKEN_TTL_MINUTES * 60 });
+}
+
+/**
+ * Verifies the bearer token and that its session is still active, so logout and revocation take
+ * effect immediately. Tokens without a session (issued before sessions existed) are rejected.
+ */
+export function createAuthenticateToken(isSessionActive: SessionCheck) {
+  return function authenticateToken(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    const authHeader = req.headers['authorization'];
+    const token = authHeader && authHeader.split(' ')[1];
+
+    if (token == null) return res.sendStatus(401);
+
+    jwt.verify(token, config.JWT_SECRET, (err, decoded) => {
+      if (err) return res.sendStatus(401);
+      const payload = decoded as JwtPayload;
+      if (typeof payload.userId !== 'number' || typeof payload.sessionId !== 'number') return res.sendStatus(401);
+
+      isSessionActive(payload.sessionId, payload.userId)
+        .then((active) => {
+          if (!active) return res.sendStatus(401);
+          req.user = payload;
+          next();
+        })
+        .catch(() => res.status(500).json({ error: 'Internal server error' }));
+    });
+  };
 }
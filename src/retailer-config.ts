@@ -0,0 +1,14 @@
+import { optionalEnv } from './env';
+
+/**
+ * Retailer registry settings. Kept out of config.ts so the price import script can load the registry
+ * without JWT_SECRET or CLAUDE_API_KEY; config re-exports them for the server.
+ */
+export const retailerConfig = {
+  /** UTM source tag appended to retailer affiliate links. */
+  UTM_SOURCE: optionalEnv('UTM_SOURCE', 'my-food-sorted'),
+  /** Optional JSON file of retailer definitions that add to or override the built-in registry. */
+  RETAILERS_FILE: optionalEnv('RETAILERS_FILE', ''),
+  /** Retailer ids to offer, in display order (comma-separated). Empty = every registered retailer. */
+  ENABLED_RETAILERS: optionalEnv('ENABLED_RETAILERS', ''),
+} as const;
@@ -1,15 +1,165 @@
 import 'dotenv/config';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import express, { Request, Response, NextFunction } from 'express';
 import { rateLimit } from 'express-rate-limit';
 import helmet from 'helmet';
-import { authenticateToken, AuthenticatedRequest } from './middleware/auth';
-import { Pool } from 'pg';
+import { AuthenticatedRequest, createAuthenticateToken, signAccessToken } from './middleware/auth';
+import { Pool, type PoolClient } from 'pg';
 import cors from 'cors';
-import { config, RETAILERS, type Retailer } from './config';
-
-// Config is validated at import (config.ts); server exits if JWT_SECRET or CLAUDE_API_KEY missing.
+import { config } from './config';
+import {
+  buildProfilePromptSection,
+  loadUserProfile,
+  updateUserProfile,
+  validateProfileUpdate,
+  type UserProfile,
+} from './services/profile';
+import {
+  formatValidationErrors,
+  messageWithoutJsonBlock,
+  parseRecipeJSON,
+  validateIngredient,
+  MAX_SERVINGS,
+  validateMealPlan,
+  validateRecipe,
+  validateRecipeDetails,
+  type MealPlan,
+  type MealPlanRecipe,
+  type ValidationError,
+} from './services/meal-plan';
+import {
+  insertMealPlan,
+  insertRecipe,
+  listMealPlans,
+  loadMealPlan,
+  loadMealPlanSummary,
+  recomputeMealPlanTotal,
+  scaleMealPlan,
+  scaleRecipe,
+  transitionMealPlanStatus,
+  updateRecipe,
+  type StoredMealPlan,
+  type StoredRecipe,
+} from './services/meal-plan-store';
+import { isMealPlanStatus, MEAL_PLAN_STATUSES, parseIsoDate, parseWeekStartDate } from './services/meal-plan-status';
+import {
+  checkMealPlan,
+  describeViolations,
+  hasDietaryRequirements,
+  type DietaryCheckResult,
+} from './services/dietary-rules';
+import {
+  buildPantryPromptSection,
+  insertPantryItem,
+  listPantryItems,
+  loadUsablePantryStock,
+  updatePantryItem,
+  validatePantryItem,
+  type PantryItemInput,
+} from './services/pantry';
+import {
+  findActivePlansInRange,
+  insertCombinedShoppingList,
+  insertManualItem,
+  linkMealPlans,
+  listShoppingLists,
+  loadShoppingList,
+  rebuildShoppingList,
+  recomputeShoppingListTotal,
+  replaceMealPlanLinks,
+  setItemsChecked,
+  upsertPlanShoppingList,
+  type StoredShoppingList,
+} from './services/shopping-list-store';
+import { cleanSearchTerm, insertRetailerLinks, recordRetailerLinkClick } from './services/retailer-links';
+import { buildRetailerSearchUrl, findRetailer, listRetailers } from './services/retailers';
+import {
+  budgetStatus,
+  listSpendingHistory,
+  loadWeeklyBudget,
+  pickRecipesToCheapen,
+  recordWeeklySpending,
+} from './services/budget';
+import {
+  loadNutritionTargets,
+  summarizeMealPlanNutrition,
+  updateNutritionTargets,
+  validateNutritionTargets,
+} from './services/nutrition';
+import {
+  loadCatalogueCandidates,
+  quoteShoppingList,
+  rankQuotes,
+  retailersWithCatalogue,
+} from './services/price-catalogue';
+import {
+  buildLibraryPromptSection,
+  findLibraryRecipeIdByTitle,
+  insertLibraryRecipe,
+  LIBRARY_SORTS,
+  libraryRecipeToPlanRecipe,
+  listLibraryRecipes,
+  loadLibraryRecipe,
+  loadLibraryRecipes,
+  loadRecipePreferences,
+  markLibraryRecipesUsed,
+  updateLibraryRecipeMeta,
+  validateLibraryMeta,
+  type LibraryRecipeInput,
+  type LibrarySort,
+} from './services/recipe-library';
+import {
+  MEAL_PLAN_EXPORT_FORMATS,
+  mealPlanToHtml,
+  mealPlanToJsonLd,
+  mealPlanToMarkdown,
+  SHOPPING_LIST_EXPORT_FORMATS,
+  shoppingListToCsv,
+  shoppingListToText,
+  type MealPlanExportFormat,
+  type ShoppingListExportFormat,
+} from './services/plan-export';
+import { findJsonLdRecipes, jsonLdRecipeToCandidate, parseJsonLdDocument, scaleCandidate } from './services/recipe-import';
+import {
+  conversationExists,
+  deleteConversation,
+  ensureConversation,
+  isConversationId,
+  listConversationMessages,
+  listConversations,
+  loadConversation,
+  renameConversation,
+} from './services/conversations';
+import {
+  buildSummaryPromptSection,
+  buildSummaryRequest,
+  loadConversationMemory,
+  loadUnsummarizedMessages,
+  planChatHistory,
+  saveConversationSummary,
+  SUMMARY_SYSTEM_PROMPT,
+} from './services/chat-history';
+import { consumeMessage, loadUsage, quotaExceededMessage, recordTokenUsage } from './services/usage';
+import {
+  createSession,
+  isSessionActive,
+  listSessions,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+  type IssuedRefreshToken,
+  type SessionMeta,
+} from './services/sessions';
+import {
+  consumePasswordResetToken,
+  createPasswordResetToken,
+  emailChangedEmail,
+  passwordResetEmail,
+} from './services/password-reset';
+import { createLLMProvider, type LLMMessage, type LLMUsage } from './llm';
+import { createMailer, type MailMessage } from './mail';
+
+// Config is validated at import (config.ts); server exits if JWT_SECRET, or CLAUDE_API_KEY with the anthropic provider, is missing.
 
 // ---------------------------------------------------------------------------
 // Database Connection Pool
@@ -26,6 +176,8 @@ pool.on('error', (err: Error) => {
   console.error('Unexpected database pool error:', err);
 });
 
+const authenticateToken = createAuthenticateToken((sessionId, userId) => isSessionActive(pool, sessionId, userId));
+
 // ---------------------------------------------------------------------------
 // Logging
 // ---------------------------------------------------------------------------
@@ -45,7 +197,7 @@ const CLAUDE_MEAL_PLANNING_SYSTEM_PROMPT = `You are My Food SORTED, an AI assist
 Your responsibilities:
 - Create practical, budget-conscious meal plans based on user preferences, dietary requirements, and allergies
 - Respect household size and default budget when suggesting meals
-- Provide recipes with clear instructions, prep/cook times, and nutritional info (calories, protein, carbs, fat)
+- Provide recipes with clear instructions, prep/cook times, and nutritional info per serving (calories, protein, carbs, fat)
 - When returning meal plans, always respond with valid JSON in this structure:
   {
     "plan_name": "string",
@@ -77,133 +229,343 @@ Your responsibilities:
   }
 - Be concise, friendly, and helpful. If the user's message doesn't require a meal plan, respond conversationally without JSON.`;
 
-interface ClaudeMessage {
-  role: 'user' | 'assistant';
-  content: string;
+/** Base system prompt plus the caller's profile, so preferences apply to every conversation. */
+function buildSystemPrompt(profile: UserProfile | null): string {
+  if (!profile) return CLAUDE_MEAL_PLANNING_SYSTEM_PROMPT;
+  return `${CLAUDE_MEAL_PLANNING_SYSTEM_PROMPT}\n\n${buildProfilePromptSection(profile)}`;
 }
 
-interface ClaudeResponse {
-  content: Array<{ type: string; text?: string }>;
-  stop_reason?: string;
+const llm = createLLMProvider();
+
+async function callClaudeAPI(messages: LLMMessage[], systemPrompt: string, usage: LLMUsage): Promise<string> {
+  const completion = await llm.complete(messages, systemPrompt);
+  addUsage(usage, completion.usage);
+  return completion.text;
 }
 
-async function callClaudeAPI(
-  messages: ClaudeMessage[],
-  systemPrompt: string = CLAUDE_MEAL_PLANNING_SYSTEM_PROMPT
+/** Streaming variant of callClaudeAPI: calls onDelta for each text delta and resolves with the full text. */
+async function streamClaudeAPI(
+  messages: LLMMessage[],
+  systemPrompt: string,
+  usage: LLMUsage,
+  onDelta: (text: string) => void,
+  signal?: AbortSignal
 ): Promise<string> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': config.CLAUDE_API_KEY,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: config.CLAUDE_MODEL,
-      max_tokens: config.CLAUDE_MAX_TOKENS,
-      system: systemPrompt,
-      messages: messages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      })),
-    }),
-  });
+  const completion = await llm.stream(messages, systemPrompt, onDelta, signal);
+  addUsage(usage, completion.usage);
+  return completion.text;
+}
 
-  if (!response.ok) {
-    const errText = await response.text();
-    throw new Error(`Claude API error ${response.status}: ${errText}`);
-  }
-
-  const data = (await response.json()) as ClaudeResponse;
-  const textContent = data.content?.find((c) => c.type === 'text');
-  return textContent?.text ?? '';
-}
-
-interface ParsedMealPlan {
-  plan_name?: string;
-  servings?: number;
-  recipes?: Array<{
-    day_of_week?: string;
-    meal_slot?: string;
-    title?: string;
-    instructions?: string;
-    prep_time?: number;
-    cook_time?: number;
-    estimated_cost?: number;
-    calories?: number;
-    protein?: number;
-    carbs?: number;
-    fat?: number;
-    ingredients?: Array<{
-      ingredient_name?: string;
-      quantity?: number;
-      unit?: string;
-      category?: string;
-      estimated_price?: number;
-    }>;
-  }>;
-}
-
-function parseRecipeJSON(text: string): ParsedMealPlan | null {
-  // Scan for every top-level {...} block and return the first one that contains
-  // a "recipes" array, rather than greedily matching from first { to last }.
-  let depth = 0;
-  let start = -1;
-  for (let i = 0; i < text.length; i++) {
-    if (text[i] === '{') {
-      if (depth === 0) start = i;
-      depth++;
-    } else if (text[i] === '}') {
-      depth--;
-      if (depth === 0 && start !== -1) {
-        const candidate = text.slice(start, i + 1);
-        try {
-          const parsed = JSON.parse(candidate) as Record<string, unknown>;
-          if (parsed && typeof parsed === 'object' && Array.isArray(parsed.recipes)) {
-            return parsed as unknown as ParsedMealPlan;
-          }
-        } catch {
-          // not valid JSON, keep scanning
+/** Adds a response's tokens to the request's running total, which is recorded against the user's quota. */
+function addUsage(total: LLMUsage, usage: LLMUsage): void {
+  total.input_tokens += usage.input_tokens;
+  total.output_tokens += usage.output_tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Meal Plan Validation & Repair
+// ---------------------------------------------------------------------------
+
+interface MealPlanExtraction {
+  plan: MealPlan | null;
+  /** Validation errors of the last attempt, when no valid plan could be obtained. */
+  errors: ValidationError[];
+  repair_attempts: number;
+}
+
+/**
+ * Extracts and validates the meal plan in an assistant reply. If the JSON fails validation, the
+ * errors are sent back to Claude for a corrected plan, up to MEAL_PLAN_MAX_REPAIRS times.
+ */
+async function extractValidMealPlan(
+  assistantText: string,
+  messages: LLMMessage[],
+  systemPrompt: string,
+  usage: LLMUsage
+): Promise<MealPlanExtraction> {
+  let candidate = parseRecipeJSON(assistantText);
+  if (!candidate) return { plan: null, errors: [], repair_attempts: 0 };
+
+  let result = validateMealPlan(candidate);
+  let attempts = 0;
+  while (!result.ok && attempts < config.MEAL_PLAN_MAX_REPAIRS) {
+    attempts++;
+    log('WARN', 'Meal plan failed validation; requesting repair', { attempt: attempts, errors: result.errors.length });
+    const repairPrompt = `The meal plan JSON you returned failed validation:
+${formatValidationErrors(result.errors)}
+
+Respond with only the corrected, complete meal plan JSON object in the required structure.`;
+    let repairedText: string;
+    try {
+      repairedText = await callClaudeAPI(
+        [...messages, { role: 'assistant', content: JSON.stringify(candidate) }, { role: 'user', content: repairPrompt }],
+        systemPrompt,
+        usage
+      );
+    } catch (err) {
+      log('WARN', 'Meal plan repair failed', { err: String(err) });
+      break;
+    }
+    const repaired = parseRecipeJSON(repairedText);
+    if (!repaired) continue;
+    candidate = repaired;
+    result = validateMealPlan(candidate);
+  }
+
+  return result.ok
+    ? { plan: result.value, errors: [], repair_attempts: attempts }
+    : { plan: null, errors: result.errors, repair_attempts: attempts };
+}
+
+// ---------------------------------------------------------------------------
+// Dietary Rule Enforcement
+// ---------------------------------------------------------------------------
+
+type RecipeSummary = Pick<MealPlanRecipe, 'day_of_week' | 'meal_slot' | 'title'>;
+
+interface DietaryEnforcementResult {
+  plan: MealPlan;
+  check: DietaryCheckResult;
+  regenerated_recipes: RecipeSummary[];
+  removed_recipes: RecipeSummary[];
+}
+
+/**
+ * Asks Claude for one replacement per offending recipe, keeping each recipe's day and slot.
+ * Returns valid replacements keyed by recipe index, or null if the response had none.
+ */
+async function requestReplacementRecipes(
+  plan: MealPlan,
+  check: DietaryCheckResult,
+  systemPrompt: string,
+  usage: LLMUsage
+): Promise<Map<number, MealPlanRecipe> | null> {
+  const offending = check.offending_recipe_indexes;
+  const prompt = `These recipes in my meal plan break my dietary requirements:
+${describeViolations(check.violations)}
+
+Replace ONLY these recipes. Respond with only a JSON object {"recipes": [...]} containing exactly ${offending.length} recipe(s), in the same order as below, each keeping the same day_of_week and meal_slot, the same recipe structure, and a similar estimated_cost.
+
+Recipes to replace:
+${JSON.stringify(offending.map((i) => plan.recipes[i]))}`;
+
+  const text = await callClaudeAPI([{ role: 'user', content: prompt }], systemPrompt, usage);
+  const candidates = parseRecipeJSON(text)?.recipes ?? [];
+
+  // Prefer a candidate for the same day and slot; otherwise take the next unused one in order.
+  const replacements = new Map<number, MealPlanRecipe>();
+  const unused = candidates
+    .map((c, i) => validateRecipe(c, `recipes[${i}]`))
+    .flatMap((r) => (r.ok ? [r.value] : []));
+  for (const recipeIndex of offending) {
+    const original = plan.recipes[recipeIndex];
+    const sameSlot = unused.findIndex(
+      (c) => c.day_of_week === original.day_of_week && c.meal_slot === original.meal_slot
+    );
+    const pick = unused.splice(sameSlot !== -1 ? sameSlot : 0, 1)[0];
+    if (!pick) break;
+    replacements.set(recipeIndex, { ...pick, day_of_week: original.day_of_week, meal_slot: original.meal_slot });
+  }
+  return replacements.size > 0 ? replacements : null;
+}
+
+/**
+ * Applies DIETARY_ENFORCEMENT to a plan: 'flag' leaves it untouched, 'reject' drops offending recipes,
+ * 'regenerate' replaces them via Claude (up to DIETARY_MAX_REGENERATIONS rounds) and drops any still failing.
+ */
+async function enforceDietaryRules(
+  plan: MealPlan,
+  profile: UserProfile,
+  systemPrompt: string,
+  usage: LLMUsage
+): Promise<DietaryEnforcementResult> {
+  let check = checkMealPlan(plan, profile);
+  const regenerated = new Set<number>();
+
+  if (config.DIETARY_ENFORCEMENT === 'regenerate') {
+    for (let attempt = 0; attempt < config.DIETARY_MAX_REGENERATIONS && !check.passed; attempt++) {
+      const replacements = await requestReplacementRecipes(plan, check, systemPrompt, usage).catch((err) => {
+        log('WARN', 'Recipe regeneration failed', { err: String(err) });
+        return null;
+      });
+      if (!replacements) break;
+      plan = { ...plan, recipes: plan.recipes.map((r, i) => replacements.get(i) ?? r) };
+      for (const i of replacements.keys()) regenerated.add(i);
+      check = checkMealPlan(plan, profile);
+    }
+  }
+
+  const summarize = ({ day_of_week, meal_slot, title }: MealPlanRecipe): RecipeSummary => ({ day_of_week, meal_slot, title });
+  const offending = new Set(config.DIETARY_ENFORCEMENT === 'flag' ? [] : check.offending_recipe_indexes);
+
+  return {
+    plan: offending.size > 0 ? { ...plan, recipes: plan.recipes.filter((_, i) => !offending.has(i)) } : plan,
+    check,
+    regenerated_recipes: plan.recipes.filter((_, i) => regenerated.has(i) && !offending.has(i)).map(summarize),
+    removed_recipes: plan.recipes.filter((_, i) => offending.has(i)).map(summarize),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Meal Swap
+// ---------------------------------------------------------------------------
+
+/**
+ * Asks Claude for a replacement for one recipe, keeping its day and slot, avoiding the plan's other
+ * meals and staying within what is left of the weekly budget. Problems (invalid JSON, dietary
+ * violations, over budget) are sent back for another try, up to MEAL_PLAN_MAX_REPAIRS times.
+ */
+async function generateSwapRecipe(
+  plan: StoredMealPlan,
+  target: StoredRecipe,
+  profile: UserProfile | null,
+  systemPrompt: string,
+  userRequest: string | null,
+  usage: LLMUsage
+): Promise<{ recipe: MealPlanRecipe | null; problems: string[] }> {
+  const others = plan.recipes.filter((r) => r.id !== target.id);
+  const othersCost = others.reduce((sum, r) => sum + (r.estimated_cost ?? 0), 0);
+  const maxCost =
+    profile?.default_budget != null ? Math.max(0, Math.round((profile.default_budget - othersCost) * 100) / 100) : null;
+
+  const prompt = `Replace one recipe in my meal plan with a different one for the same day and meal slot.
+
+Recipe to replace: ${target.day_of_week} ${target.meal_slot} "${target.title}" (estimated cost £${(target.estimated_cost ?? 0).toFixed(2)})
+Other meals in the plan (do not repeat them):
+${others.map((r) => `- ${r.day_of_week} ${r.meal_slot}: ${r.title}`).join('\n') || '- none'}
+Servings: ${target.servings ?? plan.servings ?? 1}
+${maxCost != null ? `Budget: the replacement's estimated_cost must be at most £${maxCost.toFixed(2)} so the plan stays within £${profile!.default_budget!.toFixed(2)}.` : `Keep the estimated_cost at or below £${(target.estimated_cost ?? 0).toFixed(2)}.`}
+${userRequest ? `My request for the new recipe: ${userRequest}\n` : ''}
+Respond with only a JSON object {"recipes": [ ...exactly one recipe... ]} in the required structure, with day_of_week "${target.day_of_week}" and meal_slot "${target.meal_slot}".`;
+
+  const messages: LLMMessage[] = [{ role: 'user', content: prompt }];
+  let problems: string[] = [];
+
+  for (let attempt = 0; attempt <= config.MEAL_PLAN_MAX_REPAIRS; attempt++) {
+    const text = await callClaudeAPI(messages, systemPrompt, usage);
+    const candidate = parseRecipeJSON(text)?.recipes?.[0];
+    problems = [];
+
+    if (candidate == null || typeof candidate !== 'object') {
+      problems.push('The response did not contain a {"recipes": [...]} JSON object with a recipe.');
+    } else {
+      const validation = validateRecipe(
+        { ...candidate, day_of_week: target.day_of_week, meal_slot: target.meal_slot },
+        'recipes[0]'
+      );
+      if (!validation.ok) {
+        problems.push(...validation.errors.map((e) => `${e.path}: ${e.message}`));
+      } else {
+        const recipe = validation.value;
+        const title = recipe.title.toLowerCase();
+        if (title === target.title.toLowerCase()) {
+          problems.push('The replacement must be a different recipe.');
+        } else if (others.some((r) => r.title.toLowerCase() === title)) {
+          problems.push(`"${recipe.title}" is already in the plan; choose a different recipe.`);
+        }
+        if (maxCost != null && (recipe.estimated_cost ?? 0) > maxCost) {
+          problems.push(`estimated_cost £${(recipe.estimated_cost ?? 0).toFixed(2)} is over the £${maxCost.toFixed(2)} left in the budget.`);
         }
-        start = -1;
+        if (profile && hasDietaryRequirements(profile) && config.DIETARY_ENFORCEMENT !== 'flag') {
+          problems.push(...checkMealPlan({ recipes: [recipe] }, profile).violations.map((v) => v.message));
+        }
+        if (problems.length === 0) return { recipe, problems };
       }
     }
+
+    messages.push(
+      { role: 'assistant', content: text },
+      { role: 'user', content: `That replacement can't be used:\n${problems.map((p) => `- ${p}`).join('\n')}\n\nRespond with only the corrected JSON object.` }
+    );
   }
-  return null;
+
+  return { recipe: null, problems };
 }
 
-/** Remove the meal-plan JSON block from assistant text so the chat shows only conversational content. */
-function messageWithoutJsonBlock(text: string): string {
-  // Remove entire ```json ... ``` code block first (non-greedy to closing ```)
-  let out = text.replace(/```json\s*[\s\S]*?```/g, '');
-
-  // Remove the first top-level {...} block that contains a "recipes" array,
-  // matching the same candidate chosen by parseRecipeJSON.
-  let depth = 0;
-  let start = -1;
-  for (let i = 0; i < out.length; i++) {
-    if (out[i] === '{') {
-      if (depth === 0) start = i;
-      depth++;
-    } else if (out[i] === '}') {
-      depth--;
-      if (depth === 0 && start !== -1) {
-        const candidate = out.slice(start, i + 1);
-        try {
-          const parsed = JSON.parse(candidate) as Record<string, unknown>;
-          if (parsed && typeof parsed === 'object' && Array.isArray(parsed.recipes)) {
-            out = out.slice(0, start) + out.slice(i + 1);
-            break;
-          }
-        } catch {
-          // not valid JSON, keep scanning
-        }
-        start = -1;
+// ---------------------------------------------------------------------------
+// Budget
+// ---------------------------------------------------------------------------
+
+/**
+ * Asks Claude for cheaper versions of the given (most expensive) recipes, keeping each one's day and
+ * slot, so that together they cost at most maxCost. Returns replacements keyed by recipe id; problems
+ * are sent back for another try, up to MEAL_PLAN_MAX_REPAIRS times.
+ */
+async function generateCheaperRecipes(
+  plan: StoredMealPlan,
+  targets: StoredRecipe[],
+  maxCost: number,
+  profile: UserProfile | null,
+  systemPrompt: string,
+  usage: LLMUsage
+): Promise<{ replacements: Map<number, MealPlanRecipe> | null; problems: string[] }> {
+  const targetIds = new Set(targets.map((t) => t.id));
+  const others = plan.recipes.filter((r) => !targetIds.has(r.id));
+  const takenTitles = new Set(plan.recipes.map((r) => r.title.toLowerCase()));
+
+  const prompt = `Replace the most expensive recipes in my meal plan with cheaper ones so the plan fits my budget.
+
+Recipes to replace (in this order):
+${targets.map((t) => `- ${t.day_of_week} ${t.meal_slot} "${t.title}" (estimated cost £${(t.estimated_cost ?? 0).toFixed(2)})`).join('\n')}
+Other meals in the plan (do not repeat them):
+${others.map((r) => `- ${r.day_of_week} ${r.meal_slot}: ${r.title}`).join('\n') || '- none'}
+Servings: ${plan.servings ?? 1}
+Budget: the ${targets.length} replacement(s) must cost at most £${maxCost.toFixed(2)} in total, and each must be cheaper than the recipe it replaces. Favour cheap staples (pulses, eggs, seasonal veg, cheaper cuts) over smaller portions.
+
+Respond with only a JSON object {"recipes": [...]} containing exactly ${targets.length} recipe(s) in the same order, each keeping the day_of_week and meal_slot of the recipe it replaces, in the required structure.`;
+
+  const messages: LLMMessage[] = [{ role: 'user', content: prompt }];
+  let problems: string[] = [];
+
+  for (let attempt = 0; attempt <= config.MEAL_PLAN_MAX_REPAIRS; attempt++) {
+    const text = await callClaudeAPI(messages, systemPrompt, usage);
+    const candidates = parseRecipeJSON(text)?.recipes ?? [];
+    const replacements = new Map<number, MealPlanRecipe>();
+    problems = [];
+
+    if (candidates.length !== targets.length) {
+      problems.push(`Expected exactly ${targets.length} recipe(s) in a {"recipes": [...]} JSON object.`);
+    }
+    const newTitles = new Set<string>();
+    targets.forEach((target, i) => {
+      const candidate = candidates[i];
+      if (candidate == null || typeof candidate !== 'object') return;
+      const validation = validateRecipe(
+        { ...candidate, day_of_week: target.day_of_week, meal_slot: target.meal_slot },
+        `recipes[${i}]`
+      );
+      if (!validation.ok) {
+        problems.push(...validation.errors.map((e) => `${e.path}: ${e.message}`));
+        return;
+      }
+      const recipe = validation.value;
+      const title = recipe.title.toLowerCase();
+      if (takenTitles.has(title) || newTitles.has(title)) {
+        problems.push(`recipes[${i}]: "${recipe.title}" is already in the plan; choose a different recipe.`);
+      }
+      if ((recipe.estimated_cost ?? 0) >= (target.estimated_cost ?? 0)) {
+        problems.push(`recipes[${i}]: must cost less than the £${(target.estimated_cost ?? 0).toFixed(2)} of "${target.title}".`);
+      }
+      if (profile && hasDietaryRequirements(profile) && config.DIETARY_ENFORCEMENT !== 'flag') {
+        problems.push(...checkMealPlan({ recipes: [recipe] }, profile).violations.map((v) => `recipes[${i}]: ${v.message}`));
       }
+      newTitles.add(title);
+      replacements.set(target.id, recipe);
+    });
+
+    const cost = [...replacements.values()].reduce((sum, r) => sum + (r.estimated_cost ?? 0), 0);
+    if (replacements.size === targets.length && cost > maxCost + 0.005) {
+      problems.push(`Together the replacements cost £${cost.toFixed(2)}; they must come to at most £${maxCost.toFixed(2)}.`);
     }
+    if (problems.length === 0) return { replacements, problems };
+
+    messages.push(
+      { role: 'assistant', content: text },
+      { role: 'user', content: `Those replacements can't be used:\n${problems.map((p) => `- ${p}`).join('\n')}\n\nRespond with only the corrected JSON object.` }
+    );
   }
 
-  return out.replace(/\n{3,}/g, '\n\n').trim() || text;
+  return { replacements: null, problems };
 }
 
 // ---------------------------------------------------------------------------
@@ -234,6 +596,39 @@ app.use((req: Request, _res: Response, next: NextFunction) => {
 // Authentication Routes (rate-limited)
 // ---------------------------------------------------------------------------
 
+function sessionMeta(req: Request): SessionMeta {
+  return { userAgent: req.get('user-agent') ?? null, ip: req.ip ?? null };
+}
+
+/** Token fields of the login, register and refresh responses. */
+function sessionTokens(user: { id: number; email: string }, session: IssuedRefreshToken) {
+  return {
+    token: signAccessToken({ userId: user.id, email: user.email, sessionId: session.sessionId }),
+    expires_in: config.ACCESS_TOKEN_TTL_MINUTES * 60,
+    refresh_token: session.refreshToken,
+    refresh_token_expires_at: session.expiresAt,
+  };
+}
+
+const mailer = createMailer();
+
+/** Sends an account email. Failures are logged rather than raised, so responses never depend on delivery. */
+async function sendAccountEmail(message: MailMessage): Promise<void> {
+  await mailer.send(message).catch((err) => {
+    log('ERROR', 'Sending account email failed', { err: String(err), subject: message.subject });
+  });
+}
+
+/** The validation error for a new password, or null if it is acceptable. */
+function passwordError(password: unknown, field = 'Password'): string | null {
+  if (typeof password !== 'string' || password.length < 8) return `${field} must be at least 8 characters long`;
+  // bcrypt ignores everything past 72 bytes, so a longer password would match its own prefix.
+  if (Buffer.byteLength(password, 'utf8') > 72) {
+    return `${field} must be at most 72 bytes long (fewer characters if it uses accents, symbols or emoji)`;
+  }
+  return null;
+}
+
 const EMAIL_REGEX = /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)+$/;
 
 app.post('/register', authLimiter, async (req: Request, res: Response) => {
@@ -243,26 +638,30 @@ app.post('/register', authLimiter, async (req: Request, res: Response) => {
     if (typeof email !== 'string' || !email.trim() || !EMAIL_REGEX.test(email.trim())) {
       return res.status(400).json({ error: 'Valid email is required' });
     }
-    if (typeof password !== 'string' || password.length < 8) {
-      return res.status(400).json({ error: 'Password must be at least 8 characters long' });
+    const invalidPassword = passwordError(password);
+    if (invalidPassword) {
+      return res.status(400).json({ error: invalidPassword });
     }
 
     const client = await pool.connect();
     try {
       const hashedPassword = await bcrypt.hash(password, 10);
+      await client.query('BEGIN');
       const result = await client.query(
         'INSERT INTO users (email, password_hash) VALUES ($1, $2) RETURNING id, email',
         [email.trim(), hashedPassword]
       );
       const user = result.rows[0];
-      const token = jwt.sign({ userId: user.id, email: user.email }, config.JWT_SECRET, { expiresIn: '1h' });
+      const session = await createSession(client, user.id, sessionMeta(req));
+      await client.query('COMMIT');
       res.status(201).json({
         message: 'User registered successfully',
-        token,
+        ...sessionTokens(user, session),
         userId: user.id,
         email: user.email,
       });
     } catch (err: unknown) {
+      await client.query('ROLLBACK').catch(() => {});
       const pgErr = err as { code?: string };
       if (pgErr?.code === '23505') {
         return res.status(409).json({ error: 'Email already registered' });
@@ -303,10 +702,10 @@ app.post('/login', authLimiter, async (req: Request, res: Response) => {
         return res.status(401).json({ error: 'Invalid credentials' });
       }
 
-      const token = jwt.sign({ userId: user.id, email: user.email }, config.JWT_SECRET, { expiresIn: '1h' });
+      const session = await createSession(client, user.id, sessionMeta(req));
       res.json({
         message: 'Logged in successfully',
-        token,
+        ...sessionTokens(user, session),
         userId: user.id,
         email: user.email,
       });
@@ -322,183 +721,261 @@ app.post('/login', authLimiter, async (req: Request, res: Response) => {
   }
 });
 
-// ---------------------------------------------------------------------------
-// Protected Routes
-// ---------------------------------------------------------------------------
-
-app.post('/chat', authenticateToken, async (req: Request, res: Response) => {
+/**
+ * Swaps a refresh token for a new access token and refresh token (the old refresh token stops working).
+ * Reusing an old refresh token revokes its session.
+ */
+app.post('/token/refresh', authLimiter, async (req: Request, res: Response) => {
   try {
-    const { user_message, conversation_id } = req.body;
-    const user_id = (req as AuthenticatedRequest).user?.userId;
-
-    if (
-      typeof user_message !== 'string' ||
-      !user_message.trim() ||
-      typeof conversation_id !== 'string' ||
-      !conversation_id.trim() ||
-      user_id == null
-    ) {
-      return res.status(400).json({
-        error: 'Invalid request. Required: user_message (string), conversation_id (string). Auth token required.',
-      });
-    }
-    const convId = conversation_id.trim();
-    if (convId.length > 100 || !/^[a-zA-Z0-9_-]+$/.test(convId)) {
-      return res.status(400).json({
-        error: 'conversation_id must be 1–100 characters, alphanumeric, hyphen, or underscore only.',
-      });
+    const { refresh_token } = req.body ?? {};
+    if (typeof refresh_token !== 'string' || !refresh_token.trim() || refresh_token.length > 200) {
+      return res.status(400).json({ error: 'refresh_token is required' });
     }
 
     const client = await pool.connect();
-
     try {
-      const updateResult = await client.query<{ message_count: number }>(
-        `UPDATE users SET message_count = message_count + 1
-         WHERE id = $1 AND message_count < $2
-         RETURNING message_count`,
-        [user_id, config.MESSAGE_QUOTA_PER_USER]
-      );
-      if (updateResult.rows.length === 0) {
-        return res.status(429).json({
-          error: `You have reached your ${config.MESSAGE_QUOTA_PER_USER} messages limit`,
+      await client.query('BEGIN');
+      const result = await rotateRefreshToken(client, refresh_token.trim(), sessionMeta(req));
+      await client.query('COMMIT');
+
+      if (!result.ok) {
+        if (result.reason === 'reused') {
+          log('WARN', 'Refresh token reused; session revoked', { ip: req.ip });
+        }
+        return res.status(401).json({
+          error: result.reason === 'expired' ? 'Session expired. Log in again.' : 'Invalid refresh token. Log in again.',
         });
       }
+      res.json(sessionTokens({ id: result.userId, email: result.email }, result));
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'POST /token/refresh failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      await client.query('INSERT INTO chat_messages (user_id, sender, message_text, conversation_id) VALUES ($1, $2, $3, $4)', [
-        user_id,
-        'user',
-        user_message.trim(),
-        convId,
-      ]);
+/**
+ * Creates a reset token for the account with this email, if there is one, and emails it the link.
+ * Runs after the response is sent; the email goes out once the token is committed.
+ */
+async function sendPasswordReset(email: string, requestedIp: string | null): Promise<void> {
+  let message: MailMessage | null = null;
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await client.query<{ id: number; email: string }>('SELECT id, email FROM users WHERE email = $1', [email]);
+    const user = result.rows[0];
+    if (user) {
+      message = passwordResetEmail(user.email, await createPasswordResetToken(client, user.id, requestedIp));
+    }
+    await client.query('COMMIT');
+  } catch (txErr) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw txErr;
+  } finally {
+    client.release();
+  }
+  if (message) await sendAccountEmail(message);
+}
 
-      const historyResult = await client.query(
-        `SELECT sender, message_text FROM chat_messages 
-         WHERE conversation_id = $1 AND user_id = $2 
-         ORDER BY timestamp ASC`,
-        [convId, user_id]
-      );
+/**
+ * Starts a password reset: emails a single-use link to the address if it is registered. Always answers
+ * 202 with the same message, before looking the email up, so neither the response nor its timing shows
+ * which emails have accounts.
+ */
+app.post('/password-reset/request', authLimiter, async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body ?? {};
+    if (typeof email !== 'string' || !EMAIL_REGEX.test(email.trim())) {
+      return res.status(400).json({ error: 'Valid email is required' });
+    }
 
-      const messages: ClaudeMessage[] = historyResult.rows.map((row: { sender: string; message_text: string }) => ({
-        role: row.sender === 'user' ? 'user' : 'assistant',
-        content: row.message_text,
-      }));
+    res.status(202).json({ message: 'If that email is registered, a password reset link has been sent to it.' });
+    sendPasswordReset(email.trim(), req.ip ?? null).catch((err) => {
+      log('ERROR', 'Password reset request failed', { err: String(err) });
+    });
+  } catch (err) {
+    log('ERROR', 'POST /password-reset/request failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      const assistantText = await callClaudeAPI(messages);
+/** Completes a password reset with the emailed token; every session is logged out. */
+app.post('/password-reset/confirm', authLimiter, async (req: Request, res: Response) => {
+  try {
+    const { token, new_password } = req.body ?? {};
+    if (typeof token !== 'string' || !token.trim() || token.length > 200) {
+      return res.status(400).json({ error: 'token is required' });
+    }
+    const invalidPassword = passwordError(new_password, 'new_password');
+    if (invalidPassword) {
+      return res.status(400).json({ error: invalidPassword });
+    }
 
-      await client.query(
-        'INSERT INTO chat_messages (user_id, sender, message_text, conversation_id) VALUES ($1, $2, $3, $4)',
-        [user_id, 'assistant', assistantText, convId]
-      );
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const userId = await consumePasswordResetToken(client, token.trim());
+      if (userId == null) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ error: 'Invalid or expired reset token. Request a new one.' });
+      }
+      await client.query('UPDATE users SET password_hash = $1 WHERE id = $2', [await bcrypt.hash(new_password, 10), userId]);
+      await revokeAllSessions(client, userId, null);
+      await client.query('COMMIT');
+      res.json({ message: 'Password has been reset. Log in with your new password.' });
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'POST /password-reset/confirm failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      const mealPlan = parseRecipeJSON(assistantText);
-      const displayMessage = mealPlan ? messageWithoutJsonBlock(assistantText) : assistantText;
+/** Ends the current session: its access and refresh tokens stop working. */
+app.post('/logout', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    if (user == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
 
-      res.json({
-        message: displayMessage,
-        ...(mealPlan && { meal_plan: mealPlan }),
-      });
+    const client = await pool.connect();
+    try {
+      await revokeSession(client, user.userId, user.sessionId);
+      res.sendStatus(204);
     } finally {
       client.release();
     }
   } catch (err) {
-    const errMsg = err instanceof Error ? err.message : String(err);
-    log('ERROR', 'POST /chat failed', { err: errMsg });
-    res.status(500).json({
-      error: 'Internal server error',
-      detail: process.env.NODE_ENV !== 'production' ? errMsg : undefined,
-    });
+    log('ERROR', 'POST /logout failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.post('/meal-plan', authenticateToken, async (req: Request, res: Response) => {
+/** The user's active sessions (logged-in devices); current marks the one making the request. */
+app.get('/sessions', authenticateToken, async (req: Request, res: Response) => {
   try {
-    const { plan_name, servings, recipes } = req.body;
-    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const user = (req as AuthenticatedRequest).user;
+    if (user == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
 
-    if (
-      user_id == null ||
-      typeof plan_name !== 'string' ||
-      !plan_name.trim() ||
-      typeof servings !== 'number' ||
-      !Number.isInteger(servings) ||
-      servings < 1 ||
-      !Array.isArray(recipes) ||
-      recipes.length === 0
-    ) {
-      return res.status(400).json({
-        error: 'Invalid request. Required: plan_name (string), servings (positive integer), recipes (non-empty array). Auth token required.',
-      });
+    const client = await pool.connect();
+    try {
+      const sessions = await listSessions(client, user.userId);
+      res.json({ sessions: sessions.map((s) => ({ ...s, current: s.id === user.sessionId })) });
+    } finally {
+      client.release();
     }
+  } catch (err) {
+    log('ERROR', 'GET /sessions failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    const VALID_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'] as const;
-    const VALID_MEAL_SLOTS = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+/** Revokes every session ("log out everywhere"); ?keep_current=true keeps the one making the request. */
+app.delete('/sessions', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    if (user == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const { keep_current } = req.query;
+    if (keep_current !== undefined && keep_current !== 'true' && keep_current !== 'false') {
+      return res.status(400).json({ error: 'keep_current must be true or false.' });
+    }
 
     const client = await pool.connect();
     try {
-      await client.query('BEGIN');
-      let totalEstimatedCost = 0;
+      const revoked = await revokeAllSessions(client, user.userId, keep_current === 'true' ? user.sessionId : null);
+      res.json({ revoked });
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'DELETE /sessions failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      const mealPlanResult = await client.query<{ id: number }>(
-        `INSERT INTO meal_plans (user_id, plan_name, total_estimated_cost, servings, status)
-         VALUES ($1, $2, 0, $3, 'draft') RETURNING id`,
-        [user_id, plan_name.trim(), servings]
-      );
-      const mealPlanId = mealPlanResult.rows[0].id;
-
-      for (const r of recipes) {
-        const rawDay = (r.day_of_week || '').toString();
-        const dayOfWeek = (VALID_DAYS as readonly string[]).includes(rawDay) ? rawDay : 'Monday';
-        const rawSlot = (r.meal_slot || '').toString();
-        const mealSlot = (VALID_MEAL_SLOTS as readonly string[]).includes(rawSlot) ? rawSlot : 'dinner';
-        const title = (r.title || 'Untitled').toString().slice(0, 255);
-        const instructions = (r.instructions || '').toString();
-        const prepTime = typeof r.prep_time === 'number' ? r.prep_time : null;
-        const cookTime = typeof r.cook_time === 'number' ? r.cook_time : null;
-        const estimatedCost = typeof r.estimated_cost === 'number' ? r.estimated_cost : 0;
-        const calories = typeof r.calories === 'number' ? r.calories : null;
-        const protein = typeof r.protein === 'number' ? r.protein : null;
-        const carbs = typeof r.carbs === 'number' ? r.carbs : null;
-        const fat = typeof r.fat === 'number' ? r.fat : null;
-
-        totalEstimatedCost += estimatedCost;
-
-        const recipeResult = await client.query<{ id: number }>(
-          `INSERT INTO recipes (meal_plan_id, day_of_week, meal_slot, title, instructions, prep_time, cook_time, estimated_cost, calories, protein, carbs, fat)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12) RETURNING id`,
-          [mealPlanId, dayOfWeek, mealSlot, title, instructions, prepTime, cookTime, estimatedCost, calories, protein, carbs, fat]
-        );
-        const recipeId = recipeResult.rows[0].id;
-
-        const ingredients = Array.isArray(r.ingredients) ? r.ingredients : [];
-        for (const ing of ingredients) {
-          const ingredientName = (ing.ingredient_name || 'Unknown').toString().slice(0, 255);
-          const quantity = typeof ing.quantity === 'number' ? ing.quantity : null;
-          const unit = ing.unit != null ? String(ing.unit).slice(0, 50) : null;
-          const category = ing.category != null ? String(ing.category).slice(0, 100) : null;
-          const estimatedPrice = typeof ing.estimated_price === 'number' ? ing.estimated_price : null;
-
-          await client.query(
-            `INSERT INTO ingredients (recipe_id, ingredient_name, quantity, unit, category, estimated_price)
-             VALUES ($1, $2, $3, $4, $5, $6)`,
-            [recipeId, ingredientName, quantity, unit, category, estimatedPrice]
-          );
-        }
+app.delete('/sessions/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const sessionId = parsePositiveInt(req.params.id);
+    const user = (req as AuthenticatedRequest).user;
+    if (sessionId == null) {
+      return res.status(400).json({ error: 'Invalid session id. Must be a positive integer.' });
+    }
+    if (user == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      if (!(await revokeSession(client, user.userId, sessionId))) {
+        return res.status(404).json({ error: 'Session not found' });
       }
+      res.sendStatus(204);
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'DELETE /sessions/:id failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      await client.query(
-        'UPDATE meal_plans SET total_estimated_cost = $1 WHERE id = $2',
-        [totalEstimatedCost, mealPlanId]
-      );
+// Account
 
-      await client.query('COMMIT');
+/** The user's email and password hash; null if the account no longer exists. */
+async function loadCredentials(
+  client: PoolClient,
+  userId: number
+): Promise<{ email: string; password_hash: string } | null> {
+  const result = await client.query('SELECT email, password_hash FROM users WHERE id = $1', [userId]);
+  return result.rows[0] ?? null;
+}
 
-      res.status(201).json({
-        meal_plan_id: mealPlanId,
-        plan_name: plan_name.trim(),
-        total_estimated_cost: totalEstimatedCost,
-        servings,
-        recipes_count: recipes.length,
-      });
+/** Changes the password after checking the current one; the user's other sessions are logged out. */
+app.put('/account/password', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    if (user == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const { current_password, new_password } = req.body ?? {};
+    if (typeof current_password !== 'string' || !current_password) {
+      return res.status(400).json({ error: 'current_password is required' });
+    }
+    const invalidPassword = passwordError(new_password, 'new_password');
+    if (invalidPassword) {
+      return res.status(400).json({ error: invalidPassword });
+    }
+
+    const client = await pool.connect();
+    try {
+      const credentials = await loadCredentials(client, user.userId);
+      if (!credentials) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (!(await bcrypt.compare(current_password, credentials.password_hash))) {
+        return res.status(403).json({ error: 'Current password is incorrect' });
+      }
+
+      await client.query('BEGIN');
+      await client.query('UPDATE users SET password_hash = $1 WHERE id = $2', [await bcrypt.hash(new_password, 10), user.userId]);
+      const revoked = await revokeAllSessions(client, user.userId, user.sessionId);
+      await client.query('COMMIT');
+      res.json({ message: 'Password changed', revoked_sessions: revoked });
     } catch (txErr) {
       await client.query('ROLLBACK').catch(() => {});
       throw txErr;
@@ -506,147 +983,2652 @@ app.post('/meal-plan', authenticateToken, async (req: Request, res: Response) =>
       client.release();
     }
   } catch (err) {
-    log('ERROR', 'POST /meal-plan failed', { err: String(err) });
+    log('ERROR', 'PUT /account/password failed', { err: String(err) });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.get('/shopping-list/:plan_id', authenticateToken, async (req: Request, res: Response) => {
+/**
+ * Changes the login email after checking the password, and tells the old address. Access tokens
+ * already issued keep the old email until they are refreshed.
+ */
+app.put('/account/email', authenticateToken, async (req: Request, res: Response) => {
   try {
-    const planId = parseInt(req.params.plan_id, 10);
-    const user_id = (req as AuthenticatedRequest).user?.userId;
-    if (isNaN(planId) || planId < 1) {
-      return res.status(400).json({ error: 'Invalid plan_id. Must be a positive integer.' });
-    }
-    if (user_id == null) {
+    const user = (req as AuthenticatedRequest).user;
+    if (user == null) {
       return res.status(401).json({ error: 'Authentication required.' });
     }
+    const { new_email, current_password } = req.body ?? {};
+    if (typeof new_email !== 'string' || !EMAIL_REGEX.test(new_email.trim()) || new_email.trim().length > 255) {
+      return res.status(400).json({ error: 'Valid new_email is required' });
+    }
+    if (typeof current_password !== 'string' || !current_password) {
+      return res.status(400).json({ error: 'current_password is required' });
+    }
 
     const client = await pool.connect();
     try {
-      const planResult = await client.query(
-        'SELECT id FROM meal_plans WHERE id = $1 AND user_id = $2',
-        [planId, user_id]
-      );
-      if (planResult.rows.length === 0) {
-        return res.status(404).json({ error: 'Meal plan not found' });
+      const credentials = await loadCredentials(client, user.userId);
+      if (!credentials) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (!(await bcrypt.compare(current_password, credentials.password_hash))) {
+        return res.status(403).json({ error: 'Current password is incorrect' });
+      }
+      const email = new_email.trim();
+      if (email === credentials.email) {
+        return res.status(400).json({ error: 'new_email is the same as the current email' });
       }
 
-      await client.query('BEGIN');
       try {
-        const upsertResult = await client.query<{ id: number }>(
-          `INSERT INTO shopping_lists (meal_plan_id, total_cost)
-           VALUES ($1, 0)
-           ON CONFLICT (meal_plan_id) DO UPDATE SET meal_plan_id = EXCLUDED.meal_plan_id
-           RETURNING id`,
-          [planId]
-        );
-        const shoppingListId = upsertResult.rows[0].id;
-        await client.query('DELETE FROM shopping_list_items WHERE shopping_list_id = $1', [shoppingListId]);
-
-        const aggResult = await client.query(
-          `SELECT
-             i.ingredient_name,
-             COALESCE(i.unit, '') AS unit,
-             i.category,
-             SUM(i.quantity) AS quantity,
-             SUM(i.estimated_price) AS estimated_price
-           FROM ingredients i
-           JOIN recipes r ON r.id = i.recipe_id
-           WHERE r.meal_plan_id = $1
-           GROUP BY i.ingredient_name, COALESCE(i.unit, ''), i.category`,
-          [planId]
-        );
-
-        let totalCost = 0;
-        for (const row of aggResult.rows) {
-          const qty = row.quantity != null ? parseFloat(row.quantity) : null;
-          const price = row.estimated_price != null ? parseFloat(row.estimated_price) : null;
-          if (price != null) totalCost += price;
-
-          await client.query(
-            `INSERT INTO shopping_list_items (shopping_list_id, ingredient_name, quantity, unit, category, estimated_price, checked)
-             VALUES ($1, $2, $3, $4, $5, $6, FALSE)`,
-            [
-              shoppingListId,
-              row.ingredient_name,
-              qty,
-              row.unit === '' ? null : row.unit,
-              row.category,
-              price,
-            ]
-          );
+        await client.query('UPDATE users SET email = $1 WHERE id = $2', [email, user.userId]);
+      } catch (err: unknown) {
+        if ((err as { code?: string })?.code === '23505') {
+          return res.status(409).json({ error: 'Email already registered' });
         }
-
-        await client.query(
-          'UPDATE shopping_lists SET total_cost = $1 WHERE id = $2',
-          [totalCost, shoppingListId]
-        );
-
-        await client.query('COMMIT');
-
-        const itemsResult = await client.query(
-          `SELECT ingredient_name, quantity, unit, category, estimated_price, checked
-           FROM shopping_list_items WHERE shopping_list_id = $1 ORDER BY category NULLS LAST, ingredient_name`,
-          [shoppingListId]
-        );
-
-        res.json({
-          shopping_list_id: shoppingListId,
-          plan_id: planId,
-          items: itemsResult.rows.map((r) => ({
-            ingredient_name: r.ingredient_name,
-            quantity: r.quantity,
-            unit: r.unit,
-            category: r.category,
-            estimated_price: r.estimated_price,
-            checked: r.checked,
-          })),
-          total_cost: totalCost,
-        });
-      } catch (txErr) {
-        await client.query('ROLLBACK').catch(() => {});
-        throw txErr;
+        throw err;
       }
+      await sendAccountEmail(emailChangedEmail(credentials.email, email));
+      res.json({ message: 'Email changed', email });
     } finally {
       client.release();
     }
   } catch (err) {
-    log('ERROR', 'GET /shopping-list/:plan_id failed', { err: String(err) });
+    log('ERROR', 'PUT /account/email failed', { err: String(err) });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-function buildRetailerSearchUrl(retailer: Retailer, searchQuery: string): string {
-  const encoded = encodeURIComponent(searchQuery.trim());
-  const utmSource = config.UTM_SOURCE;
-
-  switch (retailer) {
-    case 'tesco':
-      return `https://www.tesco.com/groceries/en-GB/search?query=${encoded}&utm_source=${encodeURIComponent(utmSource)}`;
-    case 'sainsburys':
-      return `https://www.sainsburys.co.uk/gol-ui/SearchDisplayView?searchTerm=${encoded}&utm_source=${encodeURIComponent(utmSource)}`;
-    default:
-      throw new Error(`Unknown retailer: ${retailer}`);
-  }
-}
-
-app.post('/affiliate-link', authenticateToken, async (req: Request, res: Response) => {
+/**
+ * Deletes the account after checking the password. Every table keyed by user cascades, so plans,
+ * lists, conversations, library, pantry, sessions and usage go with it.
+ */
+app.delete('/account', authenticateToken, async (req: Request, res: Response) => {
   try {
-    const { retailer, search_query } = req.body;
-
+    const user = (req as AuthenticatedRequest).user;
+    if (user == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const { password } = req.body ?? {};
+    if (typeof password !== 'string' || !password) {
+      return res.status(400).json({ error: 'password is required to delete the account' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const credentials = await loadCredentials(client, user.userId);
+      if (!credentials) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (!(await bcrypt.compare(password, credentials.password_hash))) {
+        return res.status(403).json({ error: 'Password is incorrect' });
+      }
+
+      await client.query('DELETE FROM users WHERE id = $1', [user.userId]);
+      log('INFO', 'Account deleted', { userId: user.userId });
+      res.sendStatus(204);
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'DELETE /account failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Protected Routes
+// ---------------------------------------------------------------------------
+
+/** Parses a positive integer route/query parameter or JSON number; null if missing or invalid. */
+function parsePositiveInt(value: unknown): number | null {
+  if (typeof value === 'number') value = Number.isInteger(value) ? String(value) : '';
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return null;
+  const n = parseInt(value, 10);
+  return n >= 1 && n <= 2147483647 ? n : null;
+}
+
+/** Reads ?limit= and ?offset= with defaults; null if either is invalid. */
+function parsePagination(query: Request['query']): { limit: number; offset: number } | null {
+  const limit = query.limit === undefined ? 20 : parsePositiveInt(query.limit);
+  const offset = query.offset === undefined || query.offset === '0' ? 0 : parsePositiveInt(query.offset);
+  if (limit == null || limit > 100 || offset == null) return null;
+  return { limit, offset };
+}
+
+app.get('/profile', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const profile = await loadUserProfile(client, user_id);
+      if (!profile) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      res.json(profile);
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /profile failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Quota usage for the current window: tier, messages and tokens used and remaining, and when they reset. */
+app.get('/usage', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      res.json(await loadUsage(client, user_id));
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /usage failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.put('/profile', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    if (req.body == null || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Request body must be a JSON object.' });
+    }
+
+    const { update, errors } = validateProfileUpdate(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid profile', details: errors });
+    }
+
+    const client = await pool.connect();
+    try {
+      const profile = await updateUserProfile(client, user_id, update);
+      if (!profile) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      res.json(profile);
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'PUT /profile failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/pantry', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const { expiring_within_days } = req.query;
+    const days = expiring_within_days === undefined ? undefined : expiring_within_days === '0' ? 0 : parsePositiveInt(expiring_within_days);
+    if (days === null || (days !== undefined && days > 365)) {
+      return res.status(400).json({ error: 'expiring_within_days must be an integer between 0 and 365.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      res.json({ items: await listPantryItems(client, user_id, { expiringWithinDays: days }) });
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /pantry failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/pantry', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    if (req.body == null || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Request body must be a JSON object.' });
+    }
+
+    const { item, errors } = validatePantryItem(req.body, { partial: false });
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid pantry item', details: errors });
+    }
+
+    const client = await pool.connect();
+    try {
+      res.status(201).json(await insertPantryItem(client, user_id, item as PantryItemInput));
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'POST /pantry failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.patch('/pantry/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const itemId = parsePositiveInt(req.params.id);
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (itemId == null) {
+      return res.status(400).json({ error: 'Invalid pantry item id. Must be a positive integer.' });
+    }
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    if (req.body == null || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Request body must be a JSON object.' });
+    }
+
+    const { item, errors } = validatePantryItem(req.body, { partial: true });
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid pantry item', details: errors });
+    }
+
+    const client = await pool.connect();
+    try {
+      const updated = await updatePantryItem(client, user_id, itemId, item);
+      if (!updated) {
+        return res.status(404).json({ error: 'Pantry item not found' });
+      }
+      res.json(updated);
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'PATCH /pantry/:id failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/pantry/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const itemId = parsePositiveInt(req.params.id);
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (itemId == null) {
+      return res.status(400).json({ error: 'Invalid pantry item id. Must be a positive integer.' });
+    }
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const deleteResult = await client.query('DELETE FROM pantry_items WHERE id = $1 AND user_id = $2', [itemId, user_id]);
+      if (deleteResult.rowCount === 0) {
+        return res.status(404).json({ error: 'Pantry item not found' });
+      }
+      res.sendStatus(204);
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'DELETE /pantry/:id failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Chat turn helpers shared by POST /chat and POST /chat/stream.
+
+interface ChatTurn {
+  userId: number;
+  convId: string;
+  userMessage: string;
+  /** Offer the user's pantry to Claude so the plan uses up what they already have. */
+  usePantry: boolean;
+  /** Tell Claude which library recipes the user liked or rated poorly. */
+  useLibrary: boolean;
+  /** Claude tokens used on this turn so far. */
+  usage: LLMUsage;
+}
+
+interface ChatContext {
+  messages: LLMMessage[];
+  profile: UserProfile | null;
+  systemPrompt: string;
+}
+
+/** Validates the chat request body; sends 400 and returns null if invalid. */
+function parseChatTurn(req: Request, res: Response): ChatTurn | null {
+  const { user_message, conversation_id, use_pantry, use_library } = req.body;
+  const user_id = (req as AuthenticatedRequest).user?.userId;
+
+  if (use_pantry !== undefined && typeof use_pantry !== 'boolean') {
+    res.status(400).json({ error: 'use_pantry must be a boolean.' });
+    return null;
+  }
+  if (use_library !== undefined && typeof use_library !== 'boolean') {
+    res.status(400).json({ error: 'use_library must be a boolean.' });
+    return null;
+  }
+
+  if (
+    typeof user_message !== 'string' ||
+    !user_message.trim() ||
+    typeof conversation_id !== 'string' ||
+    !conversation_id.trim() ||
+    user_id == null
+  ) {
+    res.status(400).json({
+      error: 'Invalid request. Required: user_message (string), conversation_id (string). Auth token required.',
+    });
+    return null;
+  }
+  const convId = conversation_id.trim();
+  if (!isConversationId(convId)) {
+    res.status(400).json({
+      error: 'conversation_id must be 1–100 characters, alphanumeric, hyphen, or underscore only.',
+    });
+    return null;
+  }
+  return {
+    userId: user_id,
+    convId,
+    userMessage: user_message.trim(),
+    usePantry: use_pantry === true,
+    useLibrary: use_library !== false,
+    usage: { input_tokens: 0, output_tokens: 0 },
+  };
+}
+
+/**
+ * Counts one Claude request against the user's quota window; sends 429 (with the usage and a
+ * Retry-After until the window resets) and returns false when the messages or tokens are used up.
+ */
+async function consumeMessageQuota(client: PoolClient, userId: number, res: Response): Promise<boolean> {
+  if (await consumeMessage(client, userId)) return true;
+  const usage = await loadUsage(client, userId);
+  res.setHeader('Retry-After', String(Math.max(1, Math.ceil((usage.resets_at.getTime() - Date.now()) / 1000))));
+  res.status(429).json({ error: quotaExceededMessage(usage), usage });
+  return false;
+}
+
+/** Records the Claude tokens a request used against the user's quota; failures are logged, not raised. */
+async function recordClaudeUsage(client: PoolClient, userId: number, usage: LLMUsage): Promise<void> {
+  await recordTokenUsage(client, userId, usage).catch((err) => {
+    log('WARN', 'Recording token usage failed', { err: String(err), ...usage });
+  });
+}
+
+/**
+ * The conversation history to send, within CHAT_HISTORY_TOKEN_BUDGET. Older turns that no longer fit
+ * are folded into the conversation's running summary; if summarising fails they are left out this time
+ * and folded on a later turn.
+ */
+async function buildChatHistory(
+  client: PoolClient,
+  turn: ChatTurn
+): Promise<{ messages: LLMMessage[]; summary: string | null }> {
+  const memory = await loadConversationMemory(client, turn.userId, turn.convId);
+  const unsummarized = await loadUnsummarizedMessages(client, turn.userId, turn.convId, memory.through_message_id);
+  const history = planChatHistory(unsummarized, memory.summary, {
+    tokenBudget: config.CHAT_HISTORY_TOKEN_BUDGET,
+    recentCount: config.CHAT_HISTORY_RECENT_MESSAGES,
+  });
+  if (history.overflow.length === 0) return { messages: history.messages, summary: memory.summary };
+
+  try {
+    const request = buildSummaryRequest(memory.summary, history.overflow);
+    const summary = (await callClaudeAPI(request, SUMMARY_SYSTEM_PROMPT, turn.usage)).trim();
+    if (!summary) throw new Error('empty summary');
+    const throughId = history.overflow[history.overflow.length - 1].id;
+    await saveConversationSummary(client, turn.userId, turn.convId, summary, throughId);
+    log('INFO', 'Conversation history summarised', { conversation_id: turn.convId, messages: history.overflow.length });
+    return { messages: history.messages, summary };
+  } catch (err) {
+    log('WARN', 'Conversation summary failed; sending recent messages only', { err: String(err) });
+    return { messages: history.messages, summary: memory.summary };
+  }
+}
+
+/**
+ * Counts the message against the user's quota, stores it and loads the conversation history.
+ * Sends 429 and returns null when the quota is exhausted.
+ */
+async function beginChatTurn(client: PoolClient, turn: ChatTurn, res: Response): Promise<ChatContext | null> {
+  if (!(await consumeMessageQuota(client, turn.userId, res))) return null;
+
+  await ensureConversation(client, turn.userId, turn.convId);
+  await client.query('INSERT INTO chat_messages (user_id, sender, message_text, conversation_id) VALUES ($1, $2, $3, $4)', [
+    turn.userId,
+    'user',
+    turn.userMessage,
+    turn.convId,
+  ]);
+
+  const { messages, summary } = await buildChatHistory(client, turn);
+
+  const profile = await loadUserProfile(client, turn.userId);
+  let systemPrompt = buildSystemPrompt(profile);
+  if (summary) {
+    systemPrompt += `\n\n${buildSummaryPromptSection(summary)}`;
+  }
+  if (turn.usePantry) {
+    systemPrompt += `\n\n${buildPantryPromptSection(await listPantryItems(client, turn.userId))}`;
+  }
+  if (turn.useLibrary) {
+    const librarySection = buildLibraryPromptSection(await loadRecipePreferences(client, turn.userId));
+    if (librarySection) systemPrompt += `\n\n${librarySection}`;
+  }
+  return { messages, profile, systemPrompt };
+}
+
+/** Stores the assistant reply and builds the response body: display text, parsed meal plan and dietary check. */
+async function completeChatTurn(
+  client: PoolClient,
+  turn: ChatTurn,
+  context: ChatContext,
+  assistantText: string
+): Promise<Record<string, unknown>> {
+  await client.query(
+    'INSERT INTO chat_messages (user_id, sender, message_text, conversation_id) VALUES ($1, $2, $3, $4)',
+    [turn.userId, 'assistant', assistantText, turn.convId]
+  );
+
+  const extraction = await extractValidMealPlan(assistantText, context.messages, context.systemPrompt, turn.usage);
+  let mealPlan = extraction.plan;
+  const displayMessage = parseRecipeJSON(assistantText) ? messageWithoutJsonBlock(assistantText) : assistantText;
+
+  let dietaryCheck: Record<string, unknown> | undefined;
+  if (mealPlan && context.profile && hasDietaryRequirements(context.profile)) {
+    const enforced = await enforceDietaryRules(mealPlan, context.profile, context.systemPrompt, turn.usage);
+    mealPlan = enforced.plan.recipes.length > 0 ? enforced.plan : null;
+    dietaryCheck = {
+      mode: config.DIETARY_ENFORCEMENT,
+      passed: enforced.check.passed,
+      violations: enforced.check.violations,
+      regenerated_recipes: enforced.regenerated_recipes,
+      removed_recipes: enforced.removed_recipes,
+      unenforced_preferences: enforced.check.unenforced_preferences,
+    };
+  }
+
+  const weeklyBudget = context.profile?.default_budget ?? null;
+  const budget =
+    mealPlan && weeklyBudget != null
+      ? budgetStatus(mealPlan.recipes.reduce((sum, r) => sum + (r.estimated_cost ?? 0), 0), weeklyBudget)
+      : null;
+
+  return {
+    message: displayMessage,
+    ...(mealPlan && { meal_plan: mealPlan }),
+    ...(budget && { budget_status: budget }),
+    ...(extraction.errors.length > 0 && { meal_plan_errors: extraction.errors }),
+    ...(dietaryCheck && { dietary_check: dietaryCheck }),
+  };
+}
+
+app.post('/chat', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const turn = parseChatTurn(req, res);
+    if (!turn) return;
+
+    const client = await pool.connect();
+
+    try {
+      const context = await beginChatTurn(client, turn, res);
+      if (!context) return;
+
+      const assistantText = await callClaudeAPI(context.messages, context.systemPrompt, turn.usage);
+      res.json(await completeChatTurn(client, turn, context, assistantText));
+    } finally {
+      await recordClaudeUsage(client, turn.userId, turn.usage);
+      client.release();
+    }
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : String(err);
+    log('ERROR', 'POST /chat failed', { err: errMsg });
+    res.status(500).json({
+      error: 'Internal server error',
+      detail: process.env.NODE_ENV !== 'production' ? errMsg : undefined,
+    });
+  }
+});
+
+function writeSseEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Streaming variant of /chat over Server-Sent Events. Emits `delta` events ({ text }) as Claude
+ * generates, then a single `done` event with the same body /chat returns, or `error` on failure.
+ * The assistant message is only stored once the stream completes.
+ */
+app.post('/chat/stream', authenticateToken, async (req: Request, res: Response) => {
+  const abort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abort.abort();
+  });
+
+  try {
+    const turn = parseChatTurn(req, res);
+    if (!turn) return;
+
+    const client = await pool.connect();
+
+    try {
+      const context = await beginChatTurn(client, turn, res);
+      if (!context) return;
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+
+      const assistantText = await streamClaudeAPI(
+        context.messages,
+        context.systemPrompt,
+        turn.usage,
+        (text) => writeSseEvent(res, 'delta', { text }),
+        abort.signal
+      );
+      writeSseEvent(res, 'done', await completeChatTurn(client, turn, context, assistantText));
+      res.end();
+    } finally {
+      await recordClaudeUsage(client, turn.userId, turn.usage);
+      client.release();
+    }
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : String(err);
+    if (abort.signal.aborted) {
+      log('INFO', 'POST /chat/stream aborted by client');
+      return;
+    }
+    log('ERROR', 'POST /chat/stream failed', { err: errMsg });
+    const body = {
+      error: 'Internal server error',
+      detail: process.env.NODE_ENV !== 'production' ? errMsg : undefined,
+    };
+    if (res.headersSent) {
+      writeSseEvent(res, 'error', body);
+      res.end();
+    } else {
+      res.status(500).json(body);
+    }
+  }
+});
+
+// Conversations
+
+/** Parses :id as a conversation id; sends 400 and returns null if invalid. */
+function parseConversationRouteParams(req: Request, res: Response): string | null {
+  const { id } = req.params;
+  if (!isConversationId(id)) {
+    res.status(400).json({ error: 'Invalid conversation id. Must be 1–100 characters, alphanumeric, hyphen, or underscore.' });
+    return null;
+  }
+  return id;
+}
+
+/** The user's conversations, most recently active first, with a preview of the last message. */
+app.get('/conversations', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const pagination = parsePagination(req.query);
+    if (!pagination) {
+      return res.status(400).json({ error: 'Invalid pagination. limit must be 1–100, offset a non-negative integer.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const { conversations, total } = await listConversations(client, user_id, pagination);
+      res.json({ conversations, total, ...pagination });
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /conversations failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/conversations/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const conversationId = parseConversationRouteParams(req, res);
+    if (conversationId == null) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const conversation = await loadConversation(client, user_id, conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+      res.json(conversation);
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /conversations/:id failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Renames a conversation: { title } (a string, or null to go back to the first message). */
+app.patch('/conversations/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const conversationId = parseConversationRouteParams(req, res);
+    if (conversationId == null) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const { title } = req.body ?? {};
+    if (title !== null && (typeof title !== 'string' || !title.trim() || title.trim().length > 255)) {
+      return res.status(400).json({ error: 'title must be a non-empty string of at most 255 characters, or null.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      if (!(await renameConversation(client, user_id, conversationId, title === null ? null : title.trim()))) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+      res.json(await loadConversation(client, user_id, conversationId));
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'PATCH /conversations/:id failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * A page of the conversation's messages for redisplaying it. offset counts back from the newest message,
+ * so offset=0 is the latest page; messages within a page are oldest first.
+ */
+app.get('/conversations/:id/messages', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const conversationId = parseConversationRouteParams(req, res);
+    if (conversationId == null) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const pagination = parsePagination(req.query);
+    if (!pagination) {
+      return res.status(400).json({ error: 'Invalid pagination. limit must be 1–100, offset a non-negative integer.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      if (!(await conversationExists(client, user_id, conversationId))) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+      const { messages, total } = await listConversationMessages(client, user_id, conversationId, pagination);
+      res.json({
+        conversation_id: conversationId,
+        messages,
+        total,
+        ...pagination,
+        has_more: pagination.offset + messages.length < total,
+      });
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /conversations/:id/messages failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Deletes the conversation and its messages. Meal plans saved from it are kept and unlinked. */
+app.delete('/conversations/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const conversationId = parseConversationRouteParams(req, res);
+    if (conversationId == null) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const deleted = await deleteConversation(client, user_id, conversationId);
+      await client.query('COMMIT');
+      if (!deleted) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+      res.sendStatus(204);
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'DELETE /conversations/:id failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+interface LibraryRecipeRef {
+  index: number;
+  library_recipe_id: number;
+  day_of_week: unknown;
+  meal_slot: unknown;
+}
+
+/** Reads the optional library_recipes: [{ library_recipe_id, day_of_week, meal_slot }] of a POST /meal-plan body. */
+function readLibraryRecipeRefs(value: unknown, errors: ValidationError[]): LibraryRecipeRef[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > 50) {
+    errors.push({ path: 'library_recipes', message: 'must be an array of at most 50 items' });
+    return [];
+  }
+  const refs: LibraryRecipeRef[] = [];
+  value.forEach((entry, index) => {
+    const id = entry != null && typeof entry === 'object' ? parsePositiveInt(entry.library_recipe_id) : null;
+    if (id == null) {
+      errors.push({ path: `library_recipes[${index}].library_recipe_id`, message: 'must be a positive integer' });
+      return;
+    }
+    refs.push({ index, library_recipe_id: id, day_of_week: entry.day_of_week, meal_slot: entry.meal_slot });
+  });
+  return refs;
+}
+
+/**
+ * Saves a meal plan. Besides recipes, the body may list library_recipes to place saved recipes on given
+ * days and slots; they are scaled to the plan's servings and validated along with the rest.
+ */
+app.post('/meal-plan', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    if (req.body == null || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Invalid meal plan', details: [{ path: '', message: 'must be a JSON object' }] });
+    }
+
+    const refErrors: ValidationError[] = [];
+    const refs = readLibraryRecipeRefs(req.body.library_recipes, refErrors);
+    const { conversation_id } = req.body;
+    if (conversation_id !== undefined && conversation_id !== null && !isConversationId(conversation_id)) {
+      refErrors.push({ path: 'conversation_id', message: 'must be 1–100 characters, alphanumeric, hyphen, or underscore' });
+    }
+    if (refErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid meal plan', details: refErrors });
+    }
+
+    const client = await pool.connect();
+    try {
+      if (conversation_id != null && !(await conversationExists(client, user_id, conversation_id))) {
+        return res.status(400).json({
+          error: 'Invalid meal plan',
+          details: [{ path: 'conversation_id', message: 'is not one of your conversations' }],
+        });
+      }
+
+      let body = req.body;
+      let ownRecipes = 0;
+      if (refs.length > 0) {
+        const library = await loadLibraryRecipes(client, user_id, refs.map((r) => r.library_recipe_id));
+        const servings = parsePositiveInt(req.body.servings);
+        const fromLibrary: unknown[] = [];
+        for (const ref of refs) {
+          const recipe = library.get(ref.library_recipe_id);
+          if (!recipe) {
+            refErrors.push({ path: `library_recipes[${ref.index}].library_recipe_id`, message: 'not found in your library' });
+            continue;
+          }
+          fromLibrary.push({
+            day_of_week: ref.day_of_week,
+            meal_slot: ref.meal_slot,
+            ...libraryRecipeToPlanRecipe(recipe, servings ?? recipe.servings),
+          });
+        }
+        if (refErrors.length > 0) {
+          return res.status(400).json({ error: 'Invalid meal plan', details: refErrors });
+        }
+        const recipes = req.body.recipes === undefined ? [] : req.body.recipes;
+        ownRecipes = Array.isArray(recipes) ? recipes.length : 0;
+        body = { ...req.body, recipes: Array.isArray(recipes) ? [...recipes, ...fromLibrary] : recipes };
+      }
+
+      const validation = validateMealPlan(body);
+      if (!validation.ok) {
+        // Report problems with library recipes against library_recipes[i], not their merged position.
+        const details = validation.errors.map((e) => {
+          const match = /^recipes\[(\d+)\](.*)$/.exec(e.path);
+          const ref = match ? refs[Number(match[1]) - ownRecipes] : undefined;
+          return ref ? { ...e, path: `library_recipes[${ref.index}]${match![2]}` } : e;
+        });
+        return res.status(400).json({ error: 'Invalid meal plan', details });
+      }
+      const plan = validation.value;
+
+      const dietaryCheck = await checkRecipesForUser(client, user_id, plan.recipes);
+      if (dietaryCheck && !dietaryCheck.passed && config.DIETARY_ENFORCEMENT !== 'flag') {
+        return res.status(422).json({
+          error: 'Meal plan conflicts with your allergies or dietary preferences',
+          violations: dietaryCheck.violations,
+        });
+      }
+
+      await client.query('BEGIN');
+      const saved = await insertMealPlan(client, user_id, plan, conversation_id ?? null);
+      if (refs.length > 0) {
+        await markLibraryRecipesUsed(client, [...new Set(refs.map((r) => r.library_recipe_id))]);
+      }
+      await client.query('COMMIT');
+      const budget = budgetStatus(saved.total_estimated_cost, await loadWeeklyBudget(client, user_id));
+
+      res.status(201).json({
+        meal_plan_id: saved.id,
+        plan_name: plan.plan_name,
+        total_estimated_cost: saved.total_estimated_cost,
+        servings: plan.servings,
+        recipes_count: plan.recipes.length,
+        conversation_id: conversation_id ?? null,
+        budget_status: budget,
+        // Over budget: the client can offer POST /meal-plans/:id/make-cheaper.
+        ...(budget.status === 'over' && { make_cheaper_url: `/meal-plans/${saved.id}/make-cheaper` }),
+        ...(dietaryCheck && !dietaryCheck.passed && { dietary_violations: dietaryCheck.violations }),
+      });
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'POST /meal-plan failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/meal-plans', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const pagination = parsePagination(req.query);
+    if (!pagination) {
+      return res.status(400).json({ error: 'Invalid pagination. limit must be 1–100, offset a non-negative integer.' });
+    }
+    const { status, conversation_id } = req.query;
+    if (status !== undefined && !isMealPlanStatus(status)) {
+      return res.status(400).json({ error: `Invalid status filter. Must be one of: ${MEAL_PLAN_STATUSES.join(', ')}.` });
+    }
+    if (conversation_id !== undefined && !isConversationId(conversation_id)) {
+      return res.status(400).json({ error: 'Invalid conversation_id filter.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const { meal_plans, total } = await listMealPlans(client, user_id, {
+        status,
+        conversationId: conversation_id,
+        ...pagination,
+      });
+      const weeklyBudget = await loadWeeklyBudget(client, user_id);
+      res.json({
+        meal_plans: meal_plans.map((p) => ({ ...p, budget_status: budgetStatus(p.total_estimated_cost, weeklyBudget) })),
+        total,
+        ...pagination,
+      });
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /meal-plans failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/meal-plans/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const planId = parsePositiveInt(req.params.id);
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (planId == null) {
+      return res.status(400).json({ error: 'Invalid meal plan id. Must be a positive integer.' });
+    }
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const plan = await loadMealPlan(client, user_id, planId);
+      if (!plan) {
+        return res.status(404).json({ error: 'Meal plan not found' });
+      }
+      res.json({
+        ...plan,
+        budget_status: budgetStatus(plan.total_estimated_cost, await loadWeeklyBudget(client, user_id)),
+      });
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /meal-plans/:id failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.patch('/meal-plans/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const planId = parsePositiveInt(req.params.id);
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (planId == null) {
+      return res.status(400).json({ error: 'Invalid meal plan id. Must be a positive integer.' });
+    }
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const { plan_name, servings } = req.body ?? {};
+    if (
+      (plan_name === undefined && servings === undefined) ||
+      (plan_name !== undefined && (typeof plan_name !== 'string' || !plan_name.trim() || plan_name.trim().length > 255)) ||
+      (servings !== undefined && (typeof servings !== 'number' || !Number.isInteger(servings) || servings < 1 || servings > MAX_SERVINGS))
+    ) {
+      return res.status(400).json({
+        error: `Invalid request. Provide plan_name (1–255 characters) and/or servings (integer 1–${MAX_SERVINGS}).`,
+      });
+    }
+
+    const client = await pool.connect();
+    try {
+      if (servings !== undefined) {
+        // Changing servings rescales the recipes, so it is limited to plans that can still be edited.
+        const plan = await loadEditableMealPlan(client, user_id, planId, res);
+        if (!plan) return;
+        await client.query('BEGIN');
+        if (plan_name !== undefined) {
+          await client.query('UPDATE meal_plans SET plan_name = $1 WHERE id = $2', [plan_name.trim(), planId]);
+        }
+        await scaleMealPlan(client, planId, servings);
+        await client.query('COMMIT');
+      } else {
+        const updateResult = await client.query(
+          'UPDATE meal_plans SET plan_name = $1 WHERE id = $2 AND user_id = $3',
+          [plan_name.trim(), planId, user_id]
+        );
+        if (updateResult.rowCount === 0) {
+          return res.status(404).json({ error: 'Meal plan not found' });
+        }
+      }
+      const summary = await loadMealPlanSummary(client, user_id, planId);
+      res.json(
+        summary && {
+          ...summary,
+          budget_status: budgetStatus(summary.total_estimated_cost, await loadWeeklyBudget(client, user_id)),
+        }
+      );
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'PATCH /meal-plans/:id failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/meal-plans/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const planId = parsePositiveInt(req.params.id);
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (planId == null) {
+      return res.status(400).json({ error: 'Invalid meal plan id. Must be a positive integer.' });
+    }
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      // Recipes, ingredients and the shopping list go with it via ON DELETE CASCADE.
+      const deleteResult = await client.query('DELETE FROM meal_plans WHERE id = $1 AND user_id = $2', [planId, user_id]);
+      if (deleteResult.rowCount === 0) {
+        return res.status(404).json({ error: 'Meal plan not found' });
+      }
+      res.sendStatus(204);
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'DELETE /meal-plans/:id failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Lifecycle transitions: { status: 'active', week_start_date: 'YYYY-MM-DD' (a Monday) } activates a plan
+ * for that week; 'completed', 'archived' and 'draft' move it along the state machine.
+ */
+app.post('/meal-plans/:id/status', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const planId = parsePositiveInt(req.params.id);
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (planId == null) {
+      return res.status(400).json({ error: 'Invalid meal plan id. Must be a positive integer.' });
+    }
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const { status, week_start_date } = req.body ?? {};
+    if (!isMealPlanStatus(status)) {
+      return res.status(400).json({ error: `Invalid status. Must be one of: ${MEAL_PLAN_STATUSES.join(', ')}.` });
+    }
+    const weekStart = parseWeekStartDate(week_start_date);
+    if (status === 'active' && weekStart == null) {
+      return res.status(400).json({ error: 'week_start_date (YYYY-MM-DD, a Monday) is required to activate a plan.' });
+    }
+    if (status !== 'active' && week_start_date !== undefined) {
+      return res.status(400).json({ error: 'week_start_date can only be set when activating a plan.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await transitionMealPlanStatus(client, user_id, planId, status, weekStart);
+      if (!result.ok) {
+        await client.query('ROLLBACK');
+        switch (result.reason) {
+          case 'not_found':
+            return res.status(404).json({ error: 'Meal plan not found' });
+          case 'invalid_transition':
+            return res.status(409).json({
+              error: `Cannot change status from '${result.from}' to '${status}'.`,
+              allowed: result.allowed,
+            });
+          case 'week_conflict':
+            return res.status(409).json({
+              error: `Another meal plan is already active for the week starting ${weekStart}.`,
+              conflicting_plan_id: result.conflicting_plan_id,
+            });
+        }
+      }
+      if (status === 'completed') {
+        await recordWeeklySpending(client, user_id, planId);
+      }
+      await client.query('COMMIT');
+      res.json(result.plan);
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      const pgErr = txErr as { code?: string };
+      if (pgErr?.code === '23505') {
+        return res.status(409).json({ error: `Another meal plan is already active for the week starting ${weekStart}.` });
+      }
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'POST /meal-plans/:id/status failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Dietary check of recipes against the user's profile; null when the user has no requirements. */
+async function checkRecipesForUser(
+  client: PoolClient,
+  userId: number,
+  recipes: MealPlanRecipe[]
+): Promise<DietaryCheckResult | null> {
+  const profile = await loadUserProfile(client, userId);
+  return profile && hasDietaryRequirements(profile) ? checkMealPlan({ recipes }, profile) : null;
+}
+
+/** Loads a plan the user may edit; sends 404, or 409 for completed/archived plans, and returns null otherwise. */
+async function loadEditableMealPlan(
+  client: PoolClient,
+  userId: number,
+  planId: number,
+  res: Response
+): Promise<StoredMealPlan | null> {
+  const plan = await loadMealPlan(client, userId, planId);
+  if (!plan) {
+    res.status(404).json({ error: 'Meal plan not found' });
+    return null;
+  }
+  if (plan.status !== 'draft' && plan.status !== 'active') {
+    res.status(409).json({ error: `Meal plan is ${plan.status}. Only draft or active plans can be edited.` });
+    return null;
+  }
+  return plan;
+}
+
+/** Checks, inserts and responds 201 with a recipe added to a plan; the caller rolls back on error. */
+async function addRecipeToPlan(
+  client: PoolClient,
+  userId: number,
+  plan: StoredMealPlan,
+  recipe: MealPlanRecipe,
+  res: Response
+): Promise<void> {
+  const dietaryCheck = await checkRecipesForUser(client, userId, [recipe]);
+  if (dietaryCheck && !dietaryCheck.passed && config.DIETARY_ENFORCEMENT !== 'flag') {
+    res.status(422).json({
+      error: 'Recipe conflicts with your allergies or dietary preferences',
+      violations: dietaryCheck.violations,
+    });
+    return;
+  }
+
+  await client.query('BEGIN');
+  const recipeId = await insertRecipe(client, plan.id, recipe);
+  const total = await recomputeMealPlanTotal(client, plan.id);
+  await client.query('COMMIT');
+
+  const saved = await loadMealPlan(client, userId, plan.id);
+  res.status(201).json({
+    recipe: saved?.recipes.find((r) => r.id === recipeId),
+    total_estimated_cost: total,
+    budget_status: budgetStatus(total, await loadWeeklyBudget(client, userId)),
+    ...(dietaryCheck && !dietaryCheck.passed && { dietary_violations: dietaryCheck.violations }),
+  });
+}
+
+/**
+ * The Recipe nodes in an import body's document; sends 400 (unreadable document or bad servings) or
+ * 422 (no recipes) and returns null.
+ */
+function readImportDocument(body: unknown, res: Response): Record<string, unknown>[] | null {
+  if (body == null || typeof body !== 'object' || Array.isArray(body)) {
+    res.status(400).json({ error: 'Request body must be a JSON object.' });
+    return null;
+  }
+  const { document, servings } = body as Record<string, unknown>;
+  if (servings !== undefined && importServings(body as Record<string, unknown>) == null) {
+    res.status(400).json({ error: `servings must be an integer from 1 to ${MAX_SERVINGS}.` });
+    return null;
+  }
+  const doc = document == null ? null : parseJsonLdDocument(document);
+  if (doc == null) {
+    res.status(400).json({ error: 'document is required: schema.org Recipe JSON-LD, as JSON or text, or an HTML page containing it.' });
+    return null;
+  }
+  const nodes = findJsonLdRecipes(doc);
+  if (nodes.length === 0) {
+    res.status(422).json({ error: 'No schema.org Recipe found in the document.' });
+    return null;
+  }
+  return nodes;
+}
+
+/** The optional servings of an import body: what the recipe serves when its recipeYield doesn't say. */
+function importServings(body: Record<string, unknown>): number | null {
+  const servings = parsePositiveInt(body.servings);
+  return servings != null && servings <= MAX_SERVINGS ? servings : null;
+}
+
+/** Parses :id and :recipeId; sends 400 and returns null if either is invalid. */
+function parseRecipeRouteParams(req: Request, res: Response): { planId: number; recipeId: number | null } | null {
+  const planId = parsePositiveInt(req.params.id);
+  const recipeId = req.params.recipeId === undefined ? null : parsePositiveInt(req.params.recipeId);
+  if (planId == null || (req.params.recipeId !== undefined && recipeId == null)) {
+    res.status(400).json({ error: 'Invalid meal plan or recipe id. Must be positive integers.' });
+    return null;
+  }
+  return { planId, recipeId };
+}
+
+app.post('/meal-plans/:id/recipes', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseRecipeRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const validation = validateRecipe(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: 'Invalid recipe', details: validation.errors });
+    }
+
+    const client = await pool.connect();
+    try {
+      const plan = await loadEditableMealPlan(client, user_id, params.planId, res);
+      if (!plan) return;
+      await addRecipeToPlan(client, user_id, plan, validation.value, res);
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'POST /meal-plans/:id/recipes failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Imports one schema.org Recipe into the plan: { document, day_of_week, meal_slot, recipe_name?, servings? }.
+ * document is JSON-LD (object or text) or an HTML page with JSON-LD; recipe_name picks one recipe when the
+ * document has several. Quantities are scaled from the recipe's yield (or servings) to the plan's servings.
+ */
+app.post('/meal-plans/:id/recipes/import', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseRecipeRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const nodes = readImportDocument(req.body, res);
+    if (!nodes) return;
+    const { recipe_name, day_of_week, meal_slot } = req.body;
+    if (recipe_name !== undefined && typeof recipe_name !== 'string') {
+      return res.status(400).json({ error: 'recipe_name must be a string.' });
+    }
+
+    const imported = nodes.map(jsonLdRecipeToCandidate);
+    const matches = recipe_name
+      ? imported.filter((r) => String(r.candidate.title ?? '').toLowerCase() === recipe_name.trim().toLowerCase())
+      : imported;
+    if (matches.length !== 1) {
+      return res.status(400).json({
+        error: recipe_name
+          ? `No recipe named "${recipe_name}" in the document.`
+          : `The document has ${imported.length} recipes; pass recipe_name to choose one.`,
+        recipe_names: imported.map((r) => r.candidate.title),
+      });
+    }
+
+    const client = await pool.connect();
+    try {
+      const plan = await loadEditableMealPlan(client, user_id, params.planId, res);
+      if (!plan) return;
+      const from = matches[0].servings ?? importServings(req.body) ?? plan.servings ?? 1;
+      const candidate = scaleCandidate(matches[0].candidate, from, plan.servings ?? from);
+      const validation = validateRecipe({ ...candidate, day_of_week, meal_slot });
+      if (!validation.ok) {
+        return res.status(400).json({ error: 'Invalid recipe', details: validation.errors });
+      }
+      await addRecipeToPlan(client, user_id, plan, validation.value, res);
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'POST /meal-plans/:id/recipes/import failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.put('/meal-plans/:id/recipes/:recipeId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseRecipeRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const validation = validateRecipe(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: 'Invalid recipe', details: validation.errors });
+    }
+
+    const client = await pool.connect();
+    try {
+      const plan = await loadEditableMealPlan(client, user_id, params.planId, res);
+      if (!plan) return;
+      if (!plan.recipes.some((r) => r.id === params.recipeId)) {
+        return res.status(404).json({ error: 'Recipe not found' });
+      }
+      const dietaryCheck = await checkRecipesForUser(client, user_id, [validation.value]);
+      if (dietaryCheck && !dietaryCheck.passed && config.DIETARY_ENFORCEMENT !== 'flag') {
+        return res.status(422).json({
+          error: 'Recipe conflicts with your allergies or dietary preferences',
+          violations: dietaryCheck.violations,
+        });
+      }
+
+      await client.query('BEGIN');
+      await updateRecipe(client, params.recipeId!, validation.value);
+      const total = await recomputeMealPlanTotal(client, plan.id);
+      await client.query('COMMIT');
+
+      const saved = await loadMealPlan(client, user_id, plan.id);
+      res.json({
+        recipe: saved?.recipes.find((r) => r.id === params.recipeId),
+        total_estimated_cost: total,
+        budget_status: budgetStatus(total, await loadWeeklyBudget(client, user_id)),
+        ...(dietaryCheck && !dietaryCheck.passed && { dietary_violations: dietaryCheck.violations }),
+      });
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'PUT /meal-plans/:id/recipes/:recipeId failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/meal-plans/:id/recipes/:recipeId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseRecipeRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const plan = await loadEditableMealPlan(client, user_id, params.planId, res);
+      if (!plan) return;
+      if (!plan.recipes.some((r) => r.id === params.recipeId)) {
+        return res.status(404).json({ error: 'Recipe not found' });
+      }
+
+      await client.query('BEGIN');
+      await client.query('DELETE FROM recipes WHERE id = $1 AND meal_plan_id = $2', [params.recipeId, plan.id]);
+      const total = await recomputeMealPlanTotal(client, plan.id);
+      await client.query('COMMIT');
+
+      res.json({
+        deleted_recipe_id: params.recipeId,
+        total_estimated_cost: total,
+        budget_status: budgetStatus(total, await loadWeeklyBudget(client, user_id)),
+      });
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'DELETE /meal-plans/:id/recipes/:recipeId failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Rescales one recipe to body { servings }: quantities, prices and cost change; per-serving nutrition does not. */
+app.patch('/meal-plans/:id/recipes/:recipeId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseRecipeRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const { servings } = req.body ?? {};
+    if (typeof servings !== 'number' || !Number.isInteger(servings) || servings < 1 || servings > MAX_SERVINGS) {
+      return res.status(400).json({ error: `servings must be an integer from 1 to ${MAX_SERVINGS}.` });
+    }
+
+    const client = await pool.connect();
+    try {
+      const plan = await loadEditableMealPlan(client, user_id, params.planId, res);
+      if (!plan) return;
+      if (!plan.recipes.some((r) => r.id === params.recipeId)) {
+        return res.status(404).json({ error: 'Recipe not found' });
+      }
+
+      await client.query('BEGIN');
+      const total = await scaleRecipe(client, plan.id, params.recipeId!, servings);
+      await client.query('COMMIT');
+
+      const saved = await loadMealPlan(client, user_id, plan.id);
+      res.json({
+        recipe: saved?.recipes.find((r) => r.id === params.recipeId),
+        total_estimated_cost: total,
+        budget_status: budgetStatus(total, await loadWeeklyBudget(client, user_id)),
+      });
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'PATCH /meal-plans/:id/recipes/:recipeId failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** "Swap this meal": asks Claude for a replacement for one recipe; body { request?: string } steers it. */
+app.post('/meal-plans/:id/recipes/:recipeId/swap', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseRecipeRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const { request } = req.body ?? {};
+    if (request !== undefined && (typeof request !== 'string' || request.length > 500)) {
+      return res.status(400).json({ error: 'request must be a string of at most 500 characters.' });
+    }
+
+    const client = await pool.connect();
+    const usage: LLMUsage = { input_tokens: 0, output_tokens: 0 };
+    try {
+      const plan = await loadEditableMealPlan(client, user_id, params.planId, res);
+      if (!plan) return;
+      const target = plan.recipes.find((r) => r.id === params.recipeId);
+      if (!target) {
+        return res.status(404).json({ error: 'Recipe not found' });
+      }
+      if (!(await consumeMessageQuota(client, user_id, res))) return;
+
+      const profile = await loadUserProfile(client, user_id);
+      const swap = await generateSwapRecipe(plan, target, profile, buildSystemPrompt(profile), request?.trim() || null, usage);
+      if (!swap.recipe) {
+        return res.status(502).json({ error: 'Could not generate a suitable replacement recipe', details: swap.problems });
+      }
+
+      await client.query('BEGIN');
+      await updateRecipe(client, target.id, swap.recipe);
+      const total = await recomputeMealPlanTotal(client, plan.id);
+      await client.query('COMMIT');
+
+      const saved = await loadMealPlan(client, user_id, plan.id);
+      res.json({
+        recipe: saved?.recipes.find((r) => r.id === target.id),
+        replaced_title: target.title,
+        total_estimated_cost: total,
+        budget_status: budgetStatus(total, await loadWeeklyBudget(client, user_id)),
+      });
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      await recordClaudeUsage(client, user_id, usage);
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'POST /meal-plans/:id/recipes/:recipeId/swap failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * "Make it cheaper": replaces the plan's most expensive recipes with cheaper ones so the total comes
+ * within the weekly budget (or body.target_total). Counts against the message quota like a swap.
+ */
+app.post('/meal-plans/:id/make-cheaper', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const planId = parsePositiveInt(req.params.id);
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (planId == null) {
+      return res.status(400).json({ error: 'Invalid meal plan id. Must be a positive integer.' });
+    }
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const { target_total } = req.body ?? {};
+    if (target_total !== undefined && (typeof target_total !== 'number' || !Number.isFinite(target_total) || target_total <= 0)) {
+      return res.status(400).json({ error: 'target_total must be a positive number.' });
+    }
+
+    const client = await pool.connect();
+    const usage: LLMUsage = { input_tokens: 0, output_tokens: 0 };
+    try {
+      const plan = await loadEditableMealPlan(client, user_id, planId, res);
+      if (!plan) return;
+      const profile = await loadUserProfile(client, user_id);
+      const budget: number | null = target_total ?? profile?.default_budget ?? null;
+      if (budget == null) {
+        return res.status(422).json({ error: 'Set default_budget in your profile, or pass target_total.' });
+      }
+
+      const status = budgetStatus(plan.total_estimated_cost, budget);
+      if (status.status !== 'over') {
+        return res.status(409).json({ error: 'Meal plan is already within budget.', budget_status: status });
+      }
+      const targets = pickRecipesToCheapen(plan.recipes, status.over_by!);
+      const targetsCost = targets.reduce((sum, r) => sum + (r.estimated_cost ?? 0), 0);
+      const maxCost = Math.round((targetsCost - status.over_by!) * 100) / 100;
+      if (maxCost <= 0) {
+        return res.status(422).json({
+          error: `Replacing the most expensive recipes can't save £${status.over_by!.toFixed(2)}. Remove recipes or raise the budget.`,
+          budget_status: status,
+        });
+      }
+      if (!(await consumeMessageQuota(client, user_id, res))) return;
+
+      const result = await generateCheaperRecipes(plan, targets, maxCost, profile, buildSystemPrompt(profile), usage);
+      if (!result.replacements) {
+        return res.status(502).json({ error: 'Could not generate cheaper recipes', details: result.problems });
+      }
+
+      await client.query('BEGIN');
+      for (const [recipeId, recipe] of result.replacements) {
+        await updateRecipe(client, recipeId, recipe);
+      }
+      const total = await recomputeMealPlanTotal(client, plan.id);
+      await client.query('COMMIT');
+
+      res.json({
+        replaced: targets.map((t) => ({
+          recipe_id: t.id,
+          old_title: t.title,
+          new_title: result.replacements!.get(t.id)!.title,
+          old_cost: t.estimated_cost,
+          new_cost: result.replacements!.get(t.id)!.estimated_cost,
+        })),
+        total_estimated_cost: total,
+        budget_status: budgetStatus(total, budget),
+      });
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      await recordClaudeUsage(client, user_id, usage);
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'POST /meal-plans/:id/make-cheaper failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Spending per week from completed plans, newest first: ?weeks= (1–104, default 12). */
+app.get('/budget/history', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const weeks = req.query.weeks === undefined ? 12 : parsePositiveInt(req.query.weeks);
+    if (weeks == null || weeks > 104) {
+      return res.status(400).json({ error: 'weeks must be an integer between 1 and 104.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const history = await listSpendingHistory(client, user_id, weeks);
+      res.json({ weekly_budget: await loadWeeklyBudget(client, user_id), ...history });
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /budget/history failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Per-day, per-plan and per-serving nutrition, with days compared against the user's daily targets. */
+app.get('/meal-plans/:id/nutrition', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const planId = parsePositiveInt(req.params.id);
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (planId == null) {
+      return res.status(400).json({ error: 'Invalid meal plan id. Must be a positive integer.' });
+    }
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const plan = await loadMealPlan(client, user_id, planId);
+      if (!plan) {
+        return res.status(404).json({ error: 'Meal plan not found' });
+      }
+      res.json(summarizeMealPlanNutrition(plan, await loadNutritionTargets(client, user_id)));
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /meal-plans/:id/nutrition failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** A download filename from a plan or list name: "Simple 3-Day Dinners" → "simple-3-day-dinners.md". */
+function exportFilename(name: string | null, fallback: string, extension: string): string {
+  const slug = (name ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+  return `${slug || fallback}.${extension}`;
+}
+
+/**
+ * Exports a plan: ?format=jsonld (schema.org Recipe ItemList, the default), markdown, or html (a printable
+ * page, shown inline). JSON-LD and Markdown are sent as downloads.
+ */
+app.get('/meal-plans/:id/export', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const planId = parsePositiveInt(req.params.id);
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (planId == null) {
+      return res.status(400).json({ error: 'Invalid meal plan id. Must be a positive integer.' });
+    }
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const { format = 'jsonld' } = req.query;
+    if (!MEAL_PLAN_EXPORT_FORMATS.includes(format as MealPlanExportFormat)) {
+      return res.status(400).json({ error: `Invalid format. Must be one of: ${MEAL_PLAN_EXPORT_FORMATS.join(', ')}.` });
+    }
+
+    const client = await pool.connect();
+    try {
+      const plan = await loadMealPlan(client, user_id, planId);
+      if (!plan) {
+        return res.status(404).json({ error: 'Meal plan not found' });
+      }
+      const fallback = `meal-plan-${plan.id}`;
+      switch (format as MealPlanExportFormat) {
+        case 'jsonld':
+          res.attachment(exportFilename(plan.plan_name, fallback, 'jsonld'));
+          res.type('application/ld+json').send(JSON.stringify(mealPlanToJsonLd(plan), null, 2));
+          break;
+        case 'markdown':
+          res.attachment(exportFilename(plan.plan_name, fallback, 'md'));
+          res.type('text/markdown; charset=utf-8').send(mealPlanToMarkdown(plan));
+          break;
+        case 'html':
+          res.type('html').send(mealPlanToHtml(plan));
+          break;
+      }
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /meal-plans/:id/export failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/nutrition/targets', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const targets = await loadNutritionTargets(client, user_id);
+      res.json(targets ?? { calories: null, protein: null, carbs: null, fat: null });
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /nutrition/targets failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Daily targets per person: { calories?, protein?, carbs?, fat? } (grams for macros); null clears one. */
+app.put('/nutrition/targets', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    if (req.body == null || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Request body must be a JSON object.' });
+    }
+
+    const { update, errors } = validateNutritionTargets(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid nutrition targets', details: errors });
+    }
+
+    const client = await pool.connect();
+    try {
+      res.json(await updateNutritionTargets(client, user_id, update));
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'PUT /nutrition/targets failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Recipe library
+
+/** Parses :id for /library routes; sends 400 and returns null if invalid. */
+function parseLibraryRouteParams(req: Request, res: Response): number | null {
+  const id = parsePositiveInt(req.params.id);
+  if (id == null) res.status(400).json({ error: 'Invalid library recipe id. Must be a positive integer.' });
+  return id;
+}
+
+/**
+ * Saves a recipe from one of the user's plans: { meal_plan_id, recipe_id, favourite?, rating?, tags?, notes? }.
+ * The library keeps its own copy at the servings it was cooked for; 409 if a recipe with the same title is saved.
+ */
+app.post('/library', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    if (req.body == null || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Request body must be a JSON object.' });
+    }
+
+    const planId = parsePositiveInt(req.body.meal_plan_id);
+    const recipeId = parsePositiveInt(req.body.recipe_id);
+    const { meta, errors: metaErrors } = validateLibraryMeta(req.body, { partial: false });
+    const errors = [
+      ...(planId == null ? ['meal_plan_id must be a positive integer'] : []),
+      ...(recipeId == null ? ['recipe_id must be a positive integer'] : []),
+      ...metaErrors,
+    ];
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid library recipe', details: errors });
+    }
+
+    const client = await pool.connect();
+    try {
+      const plan = await loadMealPlan(client, user_id, planId!);
+      const recipe = plan?.recipes.find((r) => r.id === recipeId);
+      if (!plan || !recipe) {
+        return res.status(404).json({ error: 'Recipe not found' });
+      }
+
+      await client.query('BEGIN');
+      const libraryId = await insertLibraryRecipe(
+        client,
+        user_id,
+        { ...recipe, instructions: recipe.instructions ?? '', servings: recipe.servings ?? plan.servings ?? 1, source_recipe_id: recipe.id },
+        meta
+      );
+      if (libraryId == null) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({
+          error: `"${recipe.title}" is already in your library`,
+          library_recipe_id: await findLibraryRecipeIdByTitle(client, user_id, recipe.title),
+        });
+      }
+      await client.query('COMMIT');
+      res.status(201).json(await loadLibraryRecipe(client, user_id, libraryId));
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'POST /library failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Imports schema.org Recipe JSON-LD into the library: { document, servings?, favourite?, rating?, tags?, notes? }.
+ * Every recipe in the document is validated as POST /meal-plan would; nothing is saved if any is invalid.
+ * Recipes whose title is already in the library are skipped and listed.
+ */
+app.post('/library/import', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const nodes = readImportDocument(req.body, res);
+    if (!nodes) return;
+    const { meta, errors } = validateLibraryMeta(req.body, { partial: false });
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid library recipe', details: errors });
+    }
+
+    const recipes: LibraryRecipeInput[] = [];
+    const details: ValidationError[] = [];
+    nodes.map(jsonLdRecipeToCandidate).forEach(({ candidate, servings }, i) => {
+      const validation = validateRecipeDetails(candidate, `recipes[${i}]`);
+      if (!validation.ok) details.push(...validation.errors);
+      else recipes.push({ ...validation.value, servings: servings ?? importServings(req.body) ?? 1, source_recipe_id: null });
+    });
+    if (details.length > 0) {
+      return res.status(400).json({ error: 'Invalid recipe', details });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const importedIds: number[] = [];
+      const skipped: { title: string; library_recipe_id: number | null }[] = [];
+      for (const recipe of recipes) {
+        const id = await insertLibraryRecipe(client, user_id, recipe, meta);
+        if (id != null) importedIds.push(id);
+        else skipped.push({ title: recipe.title, library_recipe_id: await findLibraryRecipeIdByTitle(client, user_id, recipe.title) });
+      }
+      await client.query('COMMIT');
+
+      const imported = await loadLibraryRecipes(client, user_id, importedIds);
+      res.status(importedIds.length > 0 ? 201 : 409).json({
+        imported: importedIds.map((id) => imported.get(id)),
+        skipped,
+      });
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'POST /library/import failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Lists and searches the library: ?q= (title, tag or ingredient), ?tag=, ?favourite=true|false,
+ * ?min_rating=1–5, ?sort=recent|rating|title|most_used, plus limit/offset.
+ */
+app.get('/library', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const pagination = parsePagination(req.query);
+    if (!pagination) {
+      return res.status(400).json({ error: 'Invalid pagination. limit must be 1–100, offset a non-negative integer.' });
+    }
+    const { q, tag, favourite, min_rating, sort = 'recent' } = req.query;
+    if ((q !== undefined && typeof q !== 'string') || (tag !== undefined && typeof tag !== 'string')) {
+      return res.status(400).json({ error: 'q and tag must be single values.' });
+    }
+    if (favourite !== undefined && favourite !== 'true' && favourite !== 'false') {
+      return res.status(400).json({ error: 'favourite must be true or false.' });
+    }
+    const minRating = min_rating === undefined ? undefined : parsePositiveInt(min_rating);
+    if (minRating === null || (minRating !== undefined && minRating > 5)) {
+      return res.status(400).json({ error: 'min_rating must be an integer from 1 to 5.' });
+    }
+    if (!LIBRARY_SORTS.includes(sort as LibrarySort)) {
+      return res.status(400).json({ error: `Invalid sort. Must be one of: ${LIBRARY_SORTS.join(', ')}.` });
+    }
+
+    const client = await pool.connect();
+    try {
+      const { recipes, total } = await listLibraryRecipes(client, user_id, {
+        q: q?.trim() || undefined,
+        tag: tag?.trim() || undefined,
+        favourite: favourite === undefined ? undefined : favourite === 'true',
+        minRating,
+        sort: sort as LibrarySort,
+        ...pagination,
+      });
+      res.json({ recipes, total, ...pagination });
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /library failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/library/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const id = parseLibraryRouteParams(req, res);
+    if (id == null) return;
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const recipe = await loadLibraryRecipe(client, user_id, id);
+      if (!recipe) {
+        return res.status(404).json({ error: 'Library recipe not found' });
+      }
+      res.json(recipe);
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /library/:id failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Updates { favourite?, rating?, tags?, notes? }; null clears rating and notes. */
+app.patch('/library/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const id = parseLibraryRouteParams(req, res);
+    if (id == null) return;
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    if (req.body == null || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Request body must be a JSON object.' });
+    }
+
+    const { meta, errors } = validateLibraryMeta(req.body, { partial: true });
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid library recipe', details: errors });
+    }
+
+    const client = await pool.connect();
+    try {
+      const updated = await updateLibraryRecipeMeta(client, user_id, id, meta);
+      if (!updated) {
+        return res.status(404).json({ error: 'Library recipe not found' });
+      }
+      res.json(updated);
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'PATCH /library/:id failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/library/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const id = parseLibraryRouteParams(req, res);
+    if (id == null) return;
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const result = await client.query('DELETE FROM library_recipes WHERE id = $1 AND user_id = $2', [id, user_id]);
+      if (result.rowCount === 0) {
+        return res.status(404).json({ error: 'Library recipe not found' });
+      }
+      res.sendStatus(204);
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'DELETE /library/:id failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Regenerates the plan's shopping list from its recipes and returns it. Regeneration diffs against the
+ * stored items, so checked state and manually added items survive. Unexpired pantry stock is taken
+ * off unless ?use_pantry=false.
+ */
+app.get('/shopping-list/:plan_id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const planId = parseInt(req.params.plan_id, 10);
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (isNaN(planId) || planId < 1) {
+      return res.status(400).json({ error: 'Invalid plan_id. Must be a positive integer.' });
+    }
+    const { use_pantry } = req.query;
+    if (use_pantry !== undefined && use_pantry !== 'true' && use_pantry !== 'false') {
+      return res.status(400).json({ error: 'use_pantry must be "true" or "false".' });
+    }
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const planResult = await client.query(
+        'SELECT id FROM meal_plans WHERE id = $1 AND user_id = $2',
+        [planId, user_id]
+      );
+      if (planResult.rows.length === 0) {
+        return res.status(404).json({ error: 'Meal plan not found' });
+      }
+
+      await client.query('BEGIN');
+      try {
+        const shoppingListId = await upsertPlanShoppingList(client, user_id, planId);
+        const used = await rebuildShoppingList(
+          client,
+          shoppingListId,
+          use_pantry === 'false' ? null : await loadUsablePantryStock(client, user_id)
+        );
+        await client.query('COMMIT');
+
+        res.json({
+          ...shoppingListResponse(
+            (await loadShoppingList(client, user_id, shoppingListId))!,
+            await loadWeeklyBudget(client, user_id)
+          ),
+          pantry_used: used,
+        });
+      } catch (txErr) {
+        await client.query('ROLLBACK').catch(() => {});
+        throw txErr;
+      }
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /shopping-list/:plan_id failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** A combined list is compared with the budget for each distinct week its plans cover. */
+function shoppingListResponse(list: StoredShoppingList, weeklyBudget: number | null) {
+  const { id, meal_plan_id, ...rest } = list;
+  return {
+    shopping_list_id: id,
+    plan_id: meal_plan_id,
+    ...rest,
+    budget_status: budgetStatus(list.total_cost, weeklyBudget, list.weeks),
+  };
+}
+
+const MAX_COMBINED_PLANS = 20;
+const MAX_COMBINED_RANGE_DAYS = 92;
+
+/**
+ * Creates a shopping list combining several plans: body { name?, meal_plan_ids } or
+ * { name?, date_from, date_to } for the active plans whose week overlaps the range. Range lists pick
+ * up newly activated plans when regenerated. Pantry stock is subtracted unless use_pantry is false.
+ */
+app.post('/shopping-lists', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const { name, meal_plan_ids, date_from, date_to, use_pantry } = req.body ?? {};
+    const planIds = Array.isArray(meal_plan_ids) ? [...new Set(meal_plan_ids.map(parsePositiveInt))] : null;
+    const byPlans = meal_plan_ids !== undefined;
+    const byRange = date_from !== undefined || date_to !== undefined;
+    const from = parseIsoDate(date_from);
+    const to = parseIsoDate(date_to);
+    if (
+      byPlans === byRange ||
+      (byPlans && (planIds == null || planIds.length === 0 || planIds.length > MAX_COMBINED_PLANS || planIds.includes(null))) ||
+      (byRange && (from == null || to == null || from > to ||
+        Date.parse(to) - Date.parse(from) > MAX_COMBINED_RANGE_DAYS * 86_400_000)) ||
+      (name !== undefined && name !== null && (typeof name !== 'string' || name.trim().length > 255)) ||
+      (use_pantry !== undefined && typeof use_pantry !== 'boolean')
+    ) {
+      return res.status(400).json({
+        error: `Invalid request. Provide either meal_plan_ids (1–${MAX_COMBINED_PLANS} plan ids) or date_from and date_to (YYYY-MM-DD, at most ${MAX_COMBINED_RANGE_DAYS} days apart); optional: name (string), use_pantry (boolean).`,
+      });
+    }
+
+    const client = await pool.connect();
+    try {
+      let ids: number[];
+      if (byPlans) {
+        ids = planIds as number[];
+        const owned = await client.query<{ id: number }>(
+          'SELECT id FROM meal_plans WHERE id = ANY($1::int[]) AND user_id = $2',
+          [ids, user_id]
+        );
+        const missing = ids.filter((id) => !owned.rows.some((r) => r.id === id));
+        if (missing.length > 0) {
+          return res.status(404).json({ error: 'Meal plan not found', meal_plan_ids: missing });
+        }
+      } else {
+        ids = await findActivePlansInRange(client, user_id, from!, to!);
+        if (ids.length === 0) {
+          return res.status(422).json({ error: 'No active meal plans in that date range' });
+        }
+      }
+
+      await client.query('BEGIN');
+      const shoppingListId = await insertCombinedShoppingList(client, user_id, {
+        name: typeof name === 'string' && name.trim() ? name.trim() : null,
+        dateFrom: byRange ? from : null,
+        dateTo: byRange ? to : null,
+      });
+      await linkMealPlans(client, shoppingListId, ids);
+      const used = await rebuildShoppingList(
+        client,
+        shoppingListId,
+        use_pantry === false ? null : await loadUsablePantryStock(client, user_id)
+      );
+      await client.query('COMMIT');
+
+      res.status(201).json({
+        ...shoppingListResponse(
+          (await loadShoppingList(client, user_id, shoppingListId))!,
+          await loadWeeklyBudget(client, user_id)
+        ),
+        pantry_used: used,
+      });
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'POST /shopping-lists failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/shopping-lists', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const pagination = parsePagination(req.query);
+    if (!pagination) {
+      return res.status(400).json({ error: 'Invalid pagination. limit must be 1–100, offset a non-negative integer.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const { shopping_lists, total } = await listShoppingLists(client, user_id, pagination);
+      res.json({
+        shopping_lists: shopping_lists.map(({ id, meal_plan_id, ...rest }) => ({ shopping_list_id: id, plan_id: meal_plan_id, ...rest })),
+        total,
+        ...pagination,
+      });
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /shopping-lists failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Rebuilds a list from its plans (re-resolving the active plans for date-range lists); ?use_pantry=false skips the pantry. */
+app.post('/shopping-lists/:id/regenerate', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseShoppingListRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const { use_pantry } = req.query;
+    if (use_pantry !== undefined && use_pantry !== 'true' && use_pantry !== 'false') {
+      return res.status(400).json({ error: 'use_pantry must be "true" or "false".' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const list = await loadShoppingList(client, user_id, params.listId);
+      if (!list) {
+        return res.status(404).json({ error: 'Shopping list not found' });
+      }
+
+      await client.query('BEGIN');
+      if (list.date_from && list.date_to) {
+        await replaceMealPlanLinks(client, list.id, await findActivePlansInRange(client, user_id, list.date_from, list.date_to));
+      }
+      const used = await rebuildShoppingList(
+        client,
+        list.id,
+        use_pantry === 'false' ? null : await loadUsablePantryStock(client, user_id)
+      );
+      await client.query('COMMIT');
+
+      res.json({
+        ...shoppingListResponse(
+          (await loadShoppingList(client, user_id, list.id))!,
+          await loadWeeklyBudget(client, user_id)
+        ),
+        pantry_used: used,
+      });
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'POST /shopping-lists/:id/regenerate failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/shopping-lists/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseShoppingListRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      // Items and plan links go with it via ON DELETE CASCADE; the plans themselves are untouched.
+      const deleteResult = await client.query('DELETE FROM shopping_lists WHERE id = $1 AND user_id = $2', [
+        params.listId,
+        user_id,
+      ]);
+      if (deleteResult.rowCount === 0) {
+        return res.status(404).json({ error: 'Shopping list not found' });
+      }
+      res.sendStatus(204);
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'DELETE /shopping-lists/:id failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Parses :id and :itemId; sends 400 and returns null if either is invalid. */
+function parseShoppingListRouteParams(req: Request, res: Response): { listId: number; itemId: number | null } | null {
+  const listId = parsePositiveInt(req.params.id);
+  const itemId = req.params.itemId === undefined ? null : parsePositiveInt(req.params.itemId);
+  if (listId == null || (req.params.itemId !== undefined && itemId == null)) {
+    res.status(400).json({ error: 'Invalid shopping list or item id. Must be positive integers.' });
+    return null;
+  }
+  return { listId, itemId };
+}
+
+app.get('/shopping-lists/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseShoppingListRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const list = await loadShoppingList(client, user_id, params.listId);
+      if (!list) {
+        return res.status(404).json({ error: 'Shopping list not found' });
+      }
+      res.json(shoppingListResponse(list, await loadWeeklyBudget(client, user_id)));
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /shopping-lists/:id failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Downloads a list: ?format=csv (the default) or text (a checklist grouped by category). */
+app.get('/shopping-lists/:id/export', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseShoppingListRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const { format = 'csv' } = req.query;
+    if (!SHOPPING_LIST_EXPORT_FORMATS.includes(format as ShoppingListExportFormat)) {
+      return res.status(400).json({ error: `Invalid format. Must be one of: ${SHOPPING_LIST_EXPORT_FORMATS.join(', ')}.` });
+    }
+
+    const client = await pool.connect();
+    try {
+      const list = await loadShoppingList(client, user_id, params.listId);
+      if (!list) {
+        return res.status(404).json({ error: 'Shopping list not found' });
+      }
+      const fallback = `shopping-list-${list.id}`;
+      if (format === 'csv') {
+        res.attachment(exportFilename(list.name, fallback, 'csv'));
+        res.type('text/csv; charset=utf-8').send(shoppingListToCsv(list));
+      } else {
+        res.attachment(exportFilename(list.name, fallback, 'txt'));
+        res.type('text/plain; charset=utf-8').send(shoppingListToText(list));
+      }
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /shopping-lists/:id/export failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Prices a list from the retailer catalogue: pack-rounded cost per retailer and the cheapest one.
+ * ?retailer= quotes just that retailer; otherwise every enabled retailer with a catalogue is compared.
+ */
+app.get('/shopping-lists/:id/prices', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseShoppingListRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    let retailers = listRetailers();
+    if (req.query.retailer !== undefined) {
+      const retailer = findRetailer(req.query.retailer);
+      if (!retailer) {
+        return res.status(400).json({ error: `Invalid retailer. Expected one of: ${retailerChoices()}` });
+      }
+      retailers = [retailer];
+    }
+
+    const client = await pool.connect();
+    try {
+      const list = await loadShoppingList(client, user_id, params.listId);
+      if (!list) {
+        return res.status(404).json({ error: 'Shopping list not found' });
+      }
+
+      const withCatalogue = await retailersWithCatalogue(client, retailers.map((r) => r.id));
+      const priced = retailers.filter((r) => withCatalogue.has(r.id));
+      const candidates = await loadCatalogueCandidates(client, priced.map((r) => r.id), list.items);
+      const { quotes, cheapest_retailer } = rankQuotes(priced.map((r) => quoteShoppingList(list.items, r, candidates)));
+
+      res.json({
+        shopping_list_id: list.id,
+        estimated_total: list.total_cost,
+        cheapest_retailer,
+        quotes,
+        retailers_without_prices: retailers.filter((r) => !withCatalogue.has(r.id)).map((r) => r.id),
+      });
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /shopping-lists/:id/prices failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Bulk check/uncheck: body { checked, item_ids? }; without item_ids every item on the list is updated. */
+app.patch('/shopping-lists/:id/items', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseShoppingListRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const { checked, item_ids } = req.body ?? {};
+    const itemIds = Array.isArray(item_ids) ? item_ids.map(parsePositiveInt) : null;
     if (
-      typeof retailer !== 'string' ||
-      !RETAILERS.includes(retailer.toLowerCase() as Retailer) ||
-      typeof search_query !== 'string' ||
-      !search_query.trim()
+      typeof checked !== 'boolean' ||
+      (item_ids !== undefined && (itemIds == null || itemIds.length === 0 || itemIds.length > 500 || itemIds.includes(null)))
     ) {
       return res.status(400).json({
-        error: 'Invalid request. Required: retailer ("tesco" | "sainsburys"), search_query (non-empty string)',
+        error: 'Invalid request. Required: checked (boolean); optional: item_ids (array of 1–500 item ids).',
+      });
+    }
+
+    const client = await pool.connect();
+    try {
+      if (!(await loadShoppingList(client, user_id, params.listId))) {
+        return res.status(404).json({ error: 'Shopping list not found' });
+      }
+      const updated = await setItemsChecked(client, params.listId, itemIds as number[] | null, checked);
+      const missing = (itemIds ?? []).filter((id) => !updated.includes(id!));
+      res.json({
+        updated_item_ids: updated,
+        ...(missing.length > 0 && { not_found_item_ids: missing }),
+      });
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'PATCH /shopping-lists/:id/items failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.patch('/shopping-lists/:id/items/:itemId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseShoppingListRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const { checked } = req.body ?? {};
+    if (typeof checked !== 'boolean') {
+      return res.status(400).json({ error: 'Invalid request. Required: checked (boolean).' });
+    }
+
+    const client = await pool.connect();
+    try {
+      if (!(await loadShoppingList(client, user_id, params.listId))) {
+        return res.status(404).json({ error: 'Shopping list not found' });
+      }
+      const updated = await setItemsChecked(client, params.listId, [params.itemId!], checked);
+      if (updated.length === 0) {
+        return res.status(404).json({ error: 'Shopping list item not found' });
+      }
+      res.json({ id: params.itemId, checked });
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'PATCH /shopping-lists/:id/items/:itemId failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Adds an extra item not tied to a recipe (e.g. washing-up liquid); it is kept across regenerations. */
+app.post('/shopping-lists/:id/items', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseShoppingListRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const validation = validateIngredient(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: 'Invalid item', details: validation.errors });
+    }
+
+    const client = await pool.connect();
+    try {
+      if (!(await loadShoppingList(client, user_id, params.listId))) {
+        return res.status(404).json({ error: 'Shopping list not found' });
+      }
+      await client.query('BEGIN');
+      const itemId = await insertManualItem(client, params.listId, validation.value);
+      const total = await recomputeShoppingListTotal(client, params.listId);
+      await client.query('COMMIT');
+
+      const list = await loadShoppingList(client, user_id, params.listId);
+      res.status(201).json({ item: list?.items.find((i) => i.id === itemId), total_cost: total });
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'POST /shopping-lists/:id/items failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Removes a manually added item. Recipe items come back on regeneration, so they can only be checked off. */
+app.delete('/shopping-lists/:id/items/:itemId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseShoppingListRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const list = await loadShoppingList(client, user_id, params.listId);
+      if (!list) {
+        return res.status(404).json({ error: 'Shopping list not found' });
+      }
+      const item = list.items.find((i) => i.id === params.itemId);
+      if (!item) {
+        return res.status(404).json({ error: 'Shopping list item not found' });
+      }
+      if (item.source !== 'manual') {
+        return res.status(409).json({ error: 'Only manually added items can be removed. Check off recipe items instead.' });
+      }
+
+      await client.query('BEGIN');
+      await client.query('DELETE FROM shopping_list_items WHERE id = $1', [item.id]);
+      const total = await recomputeShoppingListTotal(client, list.id);
+      await client.query('COMMIT');
+
+      res.json({ deleted_item_id: item.id, total_cost: total });
+    } catch (txErr) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw txErr;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'DELETE /shopping-lists/:id/items/:itemId failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Enabled retailer ids formatted for validation messages, e.g. "tesco" | "asda". */
+function retailerChoices(): string {
+  return listRetailers().map((r) => `"${r.id}"`).join(' | ');
+}
+
+/** Retailers clients can offer, in configured order. Public: nothing here is user-specific. */
+app.get('/retailers', (_req: Request, res: Response) => {
+  res.json({ retailers: listRetailers().map((r) => ({ id: r.id, display_name: r.display_name })) });
+});
+
+/**
+ * Per-item search links for every unchecked item on a shopping list at one retailer. Each link also
+ * gets a tracking_url that records the click before redirecting, so follow-through can be measured.
+ */
+app.post('/shopping-lists/:id/retailer-links', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user_id = (req as AuthenticatedRequest).user?.userId;
+    const params = parseShoppingListRouteParams(req, res);
+    if (!params) return;
+    if (user_id == null) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+    const retailer = findRetailer(req.body?.retailer);
+    if (!retailer) {
+      return res.status(400).json({ error: `Invalid request. Required: retailer (${retailerChoices()})` });
+    }
+
+    const client = await pool.connect();
+    try {
+      const list = await loadShoppingList(client, user_id, params.listId);
+      if (!list) {
+        return res.status(404).json({ error: 'Shopping list not found' });
+      }
+
+      const unchecked = list.items.filter((i) => !i.checked);
+      const links = await insertRetailerLinks(
+        client,
+        user_id,
+        list.id,
+        retailer.id,
+        unchecked.map((item) => {
+          const searchTerm = cleanSearchTerm(item.ingredient_name);
+          return {
+            shopping_list_item_id: item.id,
+            ingredient_name: item.ingredient_name,
+            search_term: searchTerm,
+            url: buildRetailerSearchUrl(retailer, searchTerm),
+          };
+        })
+      );
+
+      const baseUrl = config.PUBLIC_API_URL || `${req.protocol}://${req.get('host')}`;
+      res.status(201).json({
+        shopping_list_id: list.id,
+        retailer: retailer.id,
+        links: links.map((link, i) => ({
+          item_id: link.shopping_list_item_id,
+          ingredient_name: link.ingredient_name,
+          quantity: unchecked[i].quantity,
+          unit: unchecked[i].unit,
+          search_term: link.search_term,
+          url: link.url,
+          tracking_url: `${baseUrl}/links/${link.token}`,
+        })),
+      });
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'POST /shopping-lists/:id/retailer-links failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/** Public (opened in a new tab without the auth header): records the click and redirects to the retailer. */
+app.get('/links/:token', async (req: Request, res: Response) => {
+  try {
+    const token = req.params.token;
+    if (!/^[a-f0-9]{32}$/.test(token)) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    const client = await pool.connect();
+    try {
+      const url = await recordRetailerLinkClick(client, token);
+      if (!url) {
+        return res.status(404).json({ error: 'Link not found' });
+      }
+      res.redirect(302, url);
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    log('ERROR', 'GET /links/:token failed', { err: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/affiliate-link', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const retailer = findRetailer(req.body?.retailer);
+    const searchQuery = req.body?.search_query;
+
+    if (!retailer || typeof searchQuery !== 'string' || !searchQuery.trim()) {
+      return res.status(400).json({
+        error: `Invalid request. Required: retailer (${retailerChoices()}), search_query (non-empty string)`,
       });
     }
 
-    const url = buildRetailerSearchUrl(retailer.toLowerCase() as Retailer, search_query);
+    const url = buildRetailerSearchUrl(retailer, searchQuery);
     res.json({ url });
   } catch (err) {
     log('ERROR', 'POST /affiliate-link failed', { err: String(err) });
@@ -668,5 +3650,5 @@ app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
 });
 
 app.listen(config.PORT, '0.0.0.0', () => {
-  log('INFO', `Server listening on port ${config.PORT}`);
+  log('INFO', `Server listening on port ${config.PORT}`, { llm_provider: llm.name });
 });
@@ -0,0 +1,155 @@
+import type { PoolClient } from 'pg';
+import { toNumber } from './meal-plan-store';
+
+/**
+ * Budget tracking against the user's weekly budget (users.default_budget): status of a plan or
+ * shopping list, the spending history snapshotted as plans are completed, and choosing which
+ * recipes to replace when a plan needs to come in cheaper.
+ */
+export interface BudgetStatus {
+  /** The budget compared against: the weekly budget times the number of weeks covered. */
+  budget: number | null;
+  cost: number;
+  /** 'no_budget' when the user has not set default_budget. */
+  status: 'under' | 'over' | 'no_budget';
+  /** Left to spend when under; null when over or without a budget. */
+  remaining: number | null;
+  over_by: number | null;
+  percent_used: number | null;
+  warning: string | null;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Compares a cost with weeklyBudget × weeks (a combined list over several plans covers several weeks). */
+export function budgetStatus(cost: number | null, weeklyBudget: number | null, weeks = 1): BudgetStatus {
+  const spent = roundMoney(cost ?? 0);
+  if (weeklyBudget == null) {
+    return { budget: null, cost: spent, status: 'no_budget', remaining: null, over_by: null, percent_used: null, warning: null };
+  }
+  const budget = roundMoney(weeklyBudget * Math.max(1, weeks));
+  const over = spent > budget;
+  return {
+    budget,
+    cost: spent,
+    status: over ? 'over' : 'under',
+    remaining: over ? null : roundMoney(budget - spent),
+    over_by: over ? roundMoney(spent - budget) : null,
+    percent_used: budget > 0 ? Math.round((spent / budget) * 100) : null,
+    warning: over
+      ? `£${spent.toFixed(2)} is £${(spent - budget).toFixed(2)} over your £${budget.toFixed(2)} ${weeks > 1 ? `budget for ${weeks} weeks` : 'weekly budget'}.`
+      : null,
+  };
+}
+
+export async function loadWeeklyBudget(client: PoolClient, userId: number): Promise<number | null> {
+  const result = await client.query<{ default_budget: string | null }>('SELECT default_budget FROM users WHERE id = $1', [
+    userId,
+  ]);
+  return toNumber(result.rows[0]?.default_budget);
+}
+
+/**
+ * Picks the recipes to replace to bring a plan under budget: the most expensive first, until their
+ * combined cost is at least twice the overspend (so each replacement only has to be about half the
+ * price), but never more than half the plan.
+ */
+export function pickRecipesToCheapen<T extends { estimated_cost: number | null }>(recipes: T[], overBy: number): T[] {
+  const byCost = [...recipes].sort((a, b) => (b.estimated_cost ?? 0) - (a.estimated_cost ?? 0));
+  const max = Math.max(1, Math.ceil(recipes.length / 2));
+  const picked: T[] = [];
+  let covered = 0;
+  for (const recipe of byCost) {
+    if (picked.length >= max || (picked.length > 0 && covered >= overBy * 2)) break;
+    if ((recipe.estimated_cost ?? 0) <= 0) break;
+    picked.push(recipe);
+    covered += recipe.estimated_cost ?? 0;
+  }
+  return picked;
+}
+
+/**
+ * Snapshots a completed plan into the spending history: its planned cost, its shopping list total
+ * and the budget at the time, so later budget changes don't rewrite past weeks.
+ */
+export async function recordWeeklySpending(client: PoolClient, userId: number, planId: number): Promise<void> {
+  await client.query(
+    `INSERT INTO weekly_spending (user_id, meal_plan_id, week_start_date, plan_name, weekly_budget, planned_cost, shopping_cost)
+     SELECT mp.user_id, mp.id, mp.week_start_date, mp.plan_name, u.default_budget, COALESCE(mp.total_estimated_cost, 0), sl.total_cost
+     FROM meal_plans mp
+     JOIN users u ON u.id = mp.user_id
+     LEFT JOIN shopping_lists sl ON sl.meal_plan_id = mp.id
+     WHERE mp.id = $1 AND mp.user_id = $2 AND mp.week_start_date IS NOT NULL
+     ON CONFLICT (meal_plan_id) DO UPDATE SET
+       week_start_date = EXCLUDED.week_start_date,
+       plan_name = EXCLUDED.plan_name,
+       weekly_budget = EXCLUDED.weekly_budget,
+       planned_cost = EXCLUDED.planned_cost,
+       shopping_cost = EXCLUDED.shopping_cost,
+       completed_at = CURRENT_TIMESTAMP`,
+    [planId, userId]
+  );
+}
+
+export interface SpendingWeek {
+  /** YYYY-MM-DD Monday */
+  week_start_date: string;
+  meal_plan_ids: number[];
+  plan_names: string[];
+  planned_cost: number;
+  /** Shopping list total where the plan had a list; otherwise the planned cost. */
+  spent: number;
+  budget_status: BudgetStatus;
+}
+
+interface SpendingWeekRow {
+  week_start_date: string;
+  meal_plan_ids: (number | null)[];
+  plan_names: (string | null)[];
+  weekly_budget: string | null;
+  planned_cost: string;
+  spent: string;
+}
+
+/** The last `weeks` weeks of completed-plan spending, newest first, with totals across them. */
+export async function listSpendingHistory(
+  client: PoolClient,
+  userId: number,
+  weeks: number
+): Promise<{ weeks: SpendingWeek[]; total_spent: number; average_weekly_spent: number | null; weeks_over_budget: number }> {
+  const result = await client.query<SpendingWeekRow>(
+    `SELECT to_char(week_start_date, 'YYYY-MM-DD') AS week_start_date,
+            array_agg(meal_plan_id ORDER BY completed_at) AS meal_plan_ids,
+            array_agg(plan_name ORDER BY completed_at) AS plan_names,
+            MAX(weekly_budget) AS weekly_budget,
+            SUM(planned_cost) AS planned_cost,
+            SUM(COALESCE(shopping_cost, planned_cost)) AS spent
+     FROM weekly_spending
+     WHERE user_id = $1
+     GROUP BY week_start_date
+     ORDER BY week_start_date DESC
+     LIMIT $2`,
+    [userId, weeks]
+  );
+
+  const history = result.rows.map((row) => {
+    const spent = toNumber(row.spent) ?? 0;
+    return {
+      week_start_date: row.week_start_date,
+      meal_plan_ids: row.meal_plan_ids.filter((id): id is number => id != null),
+      plan_names: row.plan_names.filter((name): name is string => name != null),
+      planned_cost: toNumber(row.planned_cost) ?? 0,
+      spent,
+      budget_status: budgetStatus(spent, toNumber(row.weekly_budget)),
+    };
+  });
+  const total = roundMoney(history.reduce((sum, w) => sum + w.spent, 0));
+  return {
+    weeks: history,
+    total_spent: total,
+    average_weekly_spent: history.length > 0 ? roundMoney(total / history.length) : null,
+    weeks_over_budget: history.filter((w) => w.budget_status.status === 'over').length,
+  };
+}
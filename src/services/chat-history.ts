@@ -0,0 +1,184 @@
+import type { PoolClient } from 'pg';
+import type { LLMMessage } from '../llm';
+import { messageWithoutJsonBlock, parseRecipeJSON } from './meal-plan';
+
+/**
+ * Token-budgeted conversation history for Claude. The latest messages go verbatim (compacted as well if
+ * they alone exceed the budget); older ones go with meal plan JSON replaced by a one-line reference;
+ * once those no longer fit the budget they are folded into a running summary stored on the
+ * conversation and sent in the system prompt instead.
+ * Token counts are estimates (about four characters per token), which is close enough for budgeting.
+ */
+export interface HistoryMessage {
+  id: number;
+  sender: string;
+  message_text: string;
+}
+
+export interface ConversationMemory {
+  summary: string | null;
+  /** Messages up to and including this id are covered by the summary. */
+  through_message_id: number | null;
+}
+
+export interface ChatHistoryPlan {
+  /** Messages to send, oldest first; always starts with a user message. */
+  messages: LLMMessage[];
+  /** Older messages that did not fit and should be folded into the summary, oldest first. */
+  overflow: HistoryMessage[];
+  estimated_tokens: number;
+}
+
+const CHARS_PER_TOKEN = 4;
+/** Per-message overhead (role markers and separators). */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const MAX_SUMMARY_LENGTH = 4000;
+const MAX_REFERENCE_RECIPES = 14;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function readString(obj: Record<string, unknown>, field: string): string | null {
+  return typeof obj[field] === 'string' && (obj[field] as string).trim() ? (obj[field] as string).trim() : null;
+}
+
+/**
+ * Replaces the meal plan JSON in an assistant message with a compact reference, e.g.
+ * [Meal plan "Simple 3-Day Dinners", serves 2 (full JSON omitted): Monday dinner: Red Lentil Dal (£3.20); ...].
+ * Messages without a plan are returned unchanged.
+ */
+export function compactMealPlanJson(text: string): string {
+  const candidate = parseRecipeJSON(text);
+  if (!candidate) return text;
+
+  const recipes = candidate.recipes.filter((r): r is Record<string, unknown> => r != null && typeof r === 'object');
+  const lines = recipes.slice(0, MAX_REFERENCE_RECIPES).map((r) => {
+    const cost = typeof r.estimated_cost === 'number' ? ` (£${r.estimated_cost.toFixed(2)})` : '';
+    const when = [readString(r, 'day_of_week'), readString(r, 'meal_slot')].filter(Boolean).join(' ');
+    return `${when ? `${when}: ` : ''}${readString(r, 'title') ?? 'untitled'}${cost}`;
+  });
+  if (recipes.length > MAX_REFERENCE_RECIPES) lines.push(`and ${recipes.length - MAX_REFERENCE_RECIPES} more`);
+
+  const name = typeof candidate.plan_name === 'string' ? ` "${candidate.plan_name}"` : '';
+  const servings = typeof candidate.servings === 'number' ? `, serves ${candidate.servings}` : '';
+  const reference = `[Meal plan${name}${servings} (full JSON omitted): ${lines.join('; ')}]`;
+  const prose = messageWithoutJsonBlock(text).trim();
+  return prose ? `${prose}\n\n${reference}` : reference;
+}
+
+function toLLMMessage(message: HistoryMessage, text: string): LLMMessage {
+  return { role: message.sender === 'user' ? 'user' : 'assistant', content: text };
+}
+
+/**
+ * Chooses what to send from the messages after the summary (oldest first, ending with the new user
+ * message). The last recentCount messages go verbatim and the rest compacted; if that is over budget,
+ * everything before the recent messages becomes overflow to summarise, which leaves room for a
+ * number of turns before the next summary is needed. If the recent messages alone are over budget
+ * (long meal plan replies), they are compacted too, all but the new user message, and the oldest of
+ * them become overflow until the rest fits.
+ */
+export function planChatHistory(
+  messages: HistoryMessage[],
+  summary: string | null,
+  opts: { tokenBudget: number; recentCount: number }
+): ChatHistoryPlan {
+  let recentStart = Math.max(0, messages.length - Math.max(1, opts.recentCount));
+  // The history sent to Claude must start with a user message.
+  while (recentStart < messages.length - 1 && messages[recentStart].sender !== 'user') recentStart++;
+
+  const recent = messages.slice(recentStart).map((m) => toLLMMessage(m, m.message_text));
+  const older = messages.slice(0, recentStart);
+  let lead = 0;
+  while (lead < older.length && older[lead].sender !== 'user') lead++;
+  const all = [...older.slice(lead).map((m) => toLLMMessage(m, compactMealPlanJson(m.message_text))), ...recent];
+
+  const summaryTokens = summary ? estimateTokens(summary) : 0;
+  const tokens = (list: LLMMessage[]) => list.reduce((sum, m) => sum + estimateTokens(m.content), summaryTokens);
+  if (tokens(all) <= opts.tokenBudget) {
+    return { messages: all, overflow: older.slice(0, lead), estimated_tokens: tokens(all) };
+  }
+  if (tokens(recent) <= opts.tokenBudget) {
+    return { messages: recent, overflow: older, estimated_tokens: tokens(recent) };
+  }
+
+  const last = recent.length - 1;
+  const compacted = recent.map((m, i) => (i === last ? m : { ...m, content: compactMealPlanJson(m.content) }));
+  let keepFrom = 0;
+  while (keepFrom < last && tokens(compacted.slice(keepFrom)) > opts.tokenBudget) {
+    keepFrom++;
+    while (keepFrom < last && compacted[keepFrom].role !== 'user') keepFrom++;
+  }
+  const kept = compacted.slice(keepFrom);
+  return {
+    messages: kept,
+    overflow: [...older, ...messages.slice(recentStart, recentStart + keepFrom)],
+    estimated_tokens: tokens(kept),
+  };
+}
+
+export async function loadConversationMemory(
+  client: PoolClient,
+  userId: number,
+  conversationId: string
+): Promise<ConversationMemory> {
+  const result = await client.query<{ summary: string | null; summary_through_message_id: number | null }>(
+    'SELECT summary, summary_through_message_id FROM conversations WHERE user_id = $1 AND conversation_id = $2',
+    [userId, conversationId]
+  );
+  const row = result.rows[0];
+  return { summary: row?.summary ?? null, through_message_id: row?.summary_through_message_id ?? null };
+}
+
+/** Messages after the summary, oldest first. */
+export async function loadUnsummarizedMessages(
+  client: PoolClient,
+  userId: number,
+  conversationId: string,
+  throughMessageId: number | null
+): Promise<HistoryMessage[]> {
+  const result = await client.query<HistoryMessage>(
+    `SELECT id, sender, message_text FROM chat_messages
+     WHERE conversation_id = $1 AND user_id = $2 AND id > $3
+     ORDER BY timestamp ASC, id ASC`,
+    [conversationId, userId, throughMessageId ?? 0]
+  );
+  return result.rows;
+}
+
+export async function saveConversationSummary(
+  client: PoolClient,
+  userId: number,
+  conversationId: string,
+  summary: string,
+  throughMessageId: number
+): Promise<void> {
+  await client.query(
+    `UPDATE conversations
+     SET summary = $1, summary_through_message_id = $2, summary_updated_at = CURRENT_TIMESTAMP
+     WHERE user_id = $3 AND conversation_id = $4`,
+    [summary.trim().slice(0, MAX_SUMMARY_LENGTH), throughMessageId, userId, conversationId]
+  );
+}
+
+export const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and a meal-planning assistant.
+Keep what later turns may rely on: the user's preferences, dislikes, constraints and budget; plans that were proposed (names, days and dish titles, not full recipes); changes the user asked for; and anything left unresolved.
+Write at most 250 words of plain prose or short bullet points. Reply with the summary only.`;
+
+/** The request that asks Claude to fold overflow messages into the existing summary. */
+export function buildSummaryRequest(previousSummary: string | null, overflow: HistoryMessage[]): LLMMessage[] {
+  const transcript = overflow
+    .map((m) => `${m.sender === 'user' ? 'User' : 'Assistant'}: ${compactMealPlanJson(m.message_text)}`)
+    .join('\n\n');
+  const content = `Summarise the conversation so far for later reference.
+
+${previousSummary ? `Summary of the earlier part:\n${previousSummary}\n\n` : ''}Messages to add:
+${transcript}`;
+  return [{ role: 'user', content }];
+}
+
+/** System prompt section carrying the summary of turns no longer sent verbatim. */
+export function buildSummaryPromptSection(summary: string): string {
+  return `Summary of the earlier part of this conversation (older messages are not included below):\n${summary}`;
+}
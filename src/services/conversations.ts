@@ -0,0 +1,218 @@
+import type { PoolClient } from 'pg';
+import { messageWithoutJsonBlock, parseRecipeJSON, validateMealPlan, type MealPlan } from './meal-plan';
+
+/**
+ * Chat conversations. The client picks the conversation_id; chat_messages holds the turns and the
+ * conversations row holds the title. Meal plans saved from a conversation keep its id
+ * (meal_plans.conversation_id) until the conversation is deleted.
+ */
+const CONVERSATION_ID_REGEX = /^[a-zA-Z0-9_-]{1,100}$/;
+
+export function isConversationId(value: unknown): value is string {
+  return typeof value === 'string' && CONVERSATION_ID_REGEX.test(value);
+}
+
+const PREVIEW_LENGTH = 120;
+const DERIVED_TITLE_LENGTH = 60;
+
+export interface ConversationSummary {
+  conversation_id: string;
+  /** The title set by the user, or else the start of the first message. */
+  title: string | null;
+  /** True when title was set by the user rather than taken from the first message. */
+  has_custom_title: boolean;
+  /** The last message with any meal plan JSON removed, truncated. */
+  preview: { sender: string; text: string } | null;
+  message_count: number;
+  created_at: Date;
+  last_message_at: Date | null;
+  meal_plan_ids: number[];
+}
+
+export interface ConversationMessage {
+  id: number;
+  sender: string;
+  /** Text as shown in the chat: assistant messages without their meal plan JSON block. */
+  message: string;
+  /** The meal plan an assistant message contained, if it was valid. */
+  meal_plan?: MealPlan;
+  timestamp: Date;
+}
+
+interface ConversationRow {
+  conversation_id: string;
+  title: string | null;
+  created_at: Date;
+  last_message_at: Date | null;
+  message_count: number;
+  last_sender: string | null;
+  last_text: string | null;
+  first_user_text: string | null;
+  meal_plan_ids: number[];
+}
+
+function truncate(text: string, length: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > length ? `${clean.slice(0, length - 1).trimEnd()}…` : clean;
+}
+
+function rowToSummary(row: ConversationRow): ConversationSummary {
+  const preview =
+    row.last_sender != null && row.last_text != null
+      ? { sender: row.last_sender, text: truncate(messageWithoutJsonBlock(row.last_text), PREVIEW_LENGTH) }
+      : null;
+  return {
+    conversation_id: row.conversation_id,
+    title: row.title ?? (row.first_user_text != null ? truncate(row.first_user_text, DERIVED_TITLE_LENGTH) : null),
+    has_custom_title: row.title != null,
+    preview,
+    message_count: row.message_count,
+    created_at: row.created_at,
+    last_message_at: row.last_message_at,
+    meal_plan_ids: row.meal_plan_ids,
+  };
+}
+
+const CONVERSATION_SELECT = `SELECT c.conversation_id, c.title, c.created_at, stats.last_message_at, stats.message_count,
+       last_msg.sender AS last_sender, last_msg.message_text AS last_text, first_msg.message_text AS first_user_text,
+       ARRAY(SELECT mp.id FROM meal_plans mp
+             WHERE mp.user_id = c.user_id AND mp.conversation_id = c.conversation_id ORDER BY mp.id) AS meal_plan_ids
+     FROM conversations c
+     CROSS JOIN LATERAL (
+       SELECT MAX(cm.timestamp) AS last_message_at, COUNT(*)::int AS message_count FROM chat_messages cm
+       WHERE cm.conversation_id = c.conversation_id AND cm.user_id = c.user_id
+     ) stats
+     LEFT JOIN LATERAL (
+       SELECT cm.sender, cm.message_text FROM chat_messages cm
+       WHERE cm.conversation_id = c.conversation_id AND cm.user_id = c.user_id
+       ORDER BY cm.timestamp DESC, cm.id DESC LIMIT 1
+     ) last_msg ON TRUE
+     LEFT JOIN LATERAL (
+       SELECT cm.message_text FROM chat_messages cm
+       WHERE cm.conversation_id = c.conversation_id AND cm.user_id = c.user_id AND cm.sender = 'user'
+       ORDER BY cm.timestamp, cm.id LIMIT 1
+     ) first_msg ON TRUE`;
+
+/** Records the conversation on its first message; later calls are no-ops. */
+export async function ensureConversation(client: PoolClient, userId: number, conversationId: string): Promise<void> {
+  await client.query(
+    `INSERT INTO conversations (user_id, conversation_id) VALUES ($1, $2)
+     ON CONFLICT (user_id, conversation_id) DO NOTHING`,
+    [userId, conversationId]
+  );
+}
+
+export async function conversationExists(client: PoolClient, userId: number, conversationId: string): Promise<boolean> {
+  const result = await client.query('SELECT 1 FROM conversations WHERE user_id = $1 AND conversation_id = $2', [
+    userId,
+    conversationId,
+  ]);
+  return result.rows.length > 0;
+}
+
+/** The user's conversations, most recently active first. */
+export async function listConversations(
+  client: PoolClient,
+  userId: number,
+  opts: { limit: number; offset: number }
+): Promise<{ conversations: ConversationSummary[]; total: number }> {
+  const countResult = await client.query<{ total: number }>(
+    'SELECT COUNT(*)::int AS total FROM conversations WHERE user_id = $1',
+    [userId]
+  );
+  const listResult = await client.query<ConversationRow>(
+    `${CONVERSATION_SELECT}
+     WHERE c.user_id = $1
+     ORDER BY COALESCE(stats.last_message_at, c.created_at) DESC, c.conversation_id
+     LIMIT $2 OFFSET $3`,
+    [userId, opts.limit, opts.offset]
+  );
+  return { conversations: listResult.rows.map(rowToSummary), total: countResult.rows[0].total };
+}
+
+export async function loadConversation(
+  client: PoolClient,
+  userId: number,
+  conversationId: string
+): Promise<ConversationSummary | null> {
+  const result = await client.query<ConversationRow>(
+    `${CONVERSATION_SELECT}
+     WHERE c.user_id = $1 AND c.conversation_id = $2`,
+    [userId, conversationId]
+  );
+  return result.rows[0] ? rowToSummary(result.rows[0]) : null;
+}
+
+/**
+ * A page of a conversation's messages. Pages count back from the newest message (offset 0 is the
+ * latest page) and each page is returned oldest first, ready to render.
+ */
+export async function listConversationMessages(
+  client: PoolClient,
+  userId: number,
+  conversationId: string,
+  opts: { limit: number; offset: number }
+): Promise<{ messages: ConversationMessage[]; total: number }> {
+  const countResult = await client.query<{ total: number }>(
+    'SELECT COUNT(*)::int AS total FROM chat_messages WHERE conversation_id = $1 AND user_id = $2',
+    [conversationId, userId]
+  );
+  const result = await client.query<{ id: number; sender: string; message_text: string; timestamp: Date }>(
+    `SELECT id, sender, message_text, timestamp FROM chat_messages
+     WHERE conversation_id = $1 AND user_id = $2
+     ORDER BY timestamp DESC, id DESC
+     LIMIT $3 OFFSET $4`,
+    [conversationId, userId, opts.limit, opts.offset]
+  );
+
+  const messages = result.rows.reverse().map((row): ConversationMessage => {
+    if (row.sender === 'user') {
+      return { id: row.id, sender: row.sender, message: row.message_text, timestamp: row.timestamp };
+    }
+    const candidate = parseRecipeJSON(row.message_text);
+    const plan = candidate ? validateMealPlan(candidate) : null;
+    return {
+      id: row.id,
+      sender: row.sender,
+      message: candidate ? messageWithoutJsonBlock(row.message_text) : row.message_text,
+      ...(plan?.ok && { meal_plan: plan.value }),
+      timestamp: row.timestamp,
+    };
+  });
+  return { messages, total: countResult.rows[0].total };
+}
+
+/** Sets or (with null) clears the title; false if the conversation does not exist. */
+export async function renameConversation(
+  client: PoolClient,
+  userId: number,
+  conversationId: string,
+  title: string | null
+): Promise<boolean> {
+  const result = await client.query('UPDATE conversations SET title = $1 WHERE user_id = $2 AND conversation_id = $3', [
+    title,
+    userId,
+    conversationId,
+  ]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Deletes the conversation and its messages inside the caller's transaction. Meal plans saved from it
+ * are kept but no longer linked. False if the conversation does not exist.
+ */
+export async function deleteConversation(client: PoolClient, userId: number, conversationId: string): Promise<boolean> {
+  const messages = await client.query('DELETE FROM chat_messages WHERE conversation_id = $1 AND user_id = $2', [
+    conversationId,
+    userId,
+  ]);
+  await client.query('UPDATE meal_plans SET conversation_id = NULL WHERE user_id = $1 AND conversation_id = $2', [
+    userId,
+    conversationId,
+  ]);
+  const conversation = await client.query('DELETE FROM conversations WHERE user_id = $1 AND conversation_id = $2', [
+    userId,
+    conversationId,
+  ]);
+  return (conversation.rowCount ?? 0) > 0 || (messages.rowCount ?? 0) > 0;
+}
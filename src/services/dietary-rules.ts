@@ -0,0 +1,422 @@
+import { normalizeIngredientName } from './units';
+
+/**
+ * Dietary rules engine: checks every ingredient (and recipe title) in a meal plan against
+ * the user's allergies and dietary preferences using an allergen/synonym dictionary.
+ */
+
+interface IngredientGroup {
+  label: string;
+  /** Words or phrases that identify the group; plurals (s/es, y→ies) are matched automatically. */
+  keywords: string[];
+  /** Phrases removed before matching, e.g. "coconut milk" is not dairy. */
+  exceptions?: string[];
+  /** If any of these appear, the ingredient is treated as a free-from alternative, e.g. "vegan cheese". */
+  freeFrom?: string[];
+  /**
+   * Free-from phrases that only hold for one diet (keyed like DIET_RULES): "halal gelatine" suits a
+   * halal diet but is still animal gelatine to a vegetarian.
+   */
+  dietFreeFrom?: Record<string, string[]>;
+}
+
+const GROUPS = {
+  peanut: {
+    label: 'peanuts',
+    keywords: ['peanut', 'groundnut', 'satay', 'monkey nut', 'arachis oil'],
+  },
+  tree_nut: {
+    label: 'tree nuts',
+    keywords: [
+      'nut', 'almond', 'walnut', 'cashew', 'pecan', 'hazelnut', 'pistachio', 'macadamia', 'brazil nut',
+      'pine nut', 'praline', 'marzipan', 'frangipane', 'nutella',
+    ],
+    freeFrom: ['nut free'],
+  },
+  milk: {
+    label: 'milk/dairy',
+    keywords: [
+      'milk', 'butter', 'cheese', 'cream', 'yoghurt', 'yogurt', 'ghee', 'whey', 'casein', 'lactose', 'buttermilk',
+      'parmesan', 'mozzarella', 'cheddar', 'feta', 'halloumi', 'ricotta', 'mascarpone', 'paneer', 'brie',
+      'camembert', 'gouda', 'stilton', 'creme fraiche', 'custard', 'quark', 'fromage frais',
+    ],
+    exceptions: [
+      'peanut butter', 'almond butter', 'cashew butter', 'nut butter', 'cocoa butter', 'butter bean', 'butternut',
+      'coconut milk', 'coconut cream', 'almond milk', 'oat milk', 'soy milk', 'soya milk', 'rice milk',
+      'cream of tartar',
+    ],
+    freeFrom: ['dairy free', 'vegan', 'plant based'],
+  },
+  egg: {
+    label: 'eggs',
+    keywords: ['egg', 'mayonnaise', 'mayo', 'meringue', 'aioli', 'albumen', 'hollandaise'],
+    freeFrom: ['egg free', 'vegan'],
+  },
+  gluten: {
+    label: 'gluten',
+    keywords: [
+      'wheat', 'flour', 'bread', 'breadcrumb', 'pasta', 'spaghetti', 'penne', 'fusilli', 'macaroni', 'lasagne',
+      'tagliatelle', 'linguine', 'noodle', 'couscous', 'barley', 'rye', 'semolina', 'bulgur', 'bulgar', 'spelt',
+      'seitan', 'tortilla', 'pitta', 'pita', 'naan', 'chapati', 'bagel', 'croissant', 'crouton', 'soy sauce',
+      'biscuit', 'cracker', 'pastry', 'filo', 'malt', 'beer',
+    ],
+    exceptions: [
+      'rice flour', 'cornflour', 'corn flour', 'gram flour', 'chickpea flour', 'almond flour', 'coconut flour',
+      'potato flour', 'tapioca flour', 'rice noodle', 'rice pasta', 'corn tortilla', 'rice paper',
+      'ginger beer', 'root beer',
+    ],
+    freeFrom: ['gluten free', 'coeliac'],
+  },
+  soy: {
+    label: 'soya',
+    keywords: ['soy', 'soya', 'tofu', 'edamame', 'tempeh', 'miso', 'tamari'],
+    freeFrom: ['soy free', 'soya free'],
+  },
+  fish: {
+    label: 'fish',
+    keywords: [
+      'fish', 'salmon', 'cod', 'tuna', 'haddock', 'mackerel', 'sardine', 'anchovy', 'anchovies', 'trout', 'pollock',
+      'sea bass', 'hake', 'plaice', 'herring', 'kipper', 'tilapia', 'worcestershire',
+    ],
+    freeFrom: ['vegan', 'fish free'],
+  },
+  crustacean: {
+    label: 'crustaceans',
+    keywords: ['prawn', 'shrimp', 'crab', 'lobster', 'crayfish', 'langoustine', 'scampi'],
+  },
+  mollusc: {
+    label: 'molluscs',
+    keywords: ['mussel', 'clam', 'oyster', 'squid', 'scallop', 'octopus', 'calamari', 'cockle', 'whelk'],
+    exceptions: ['oyster mushroom'],
+    freeFrom: ['vegan', 'vegetarian'],
+  },
+  sesame: {
+    label: 'sesame',
+    keywords: ['sesame', 'tahini', 'hummus', 'houmous', 'halva'],
+  },
+  celery: {
+    label: 'celery',
+    keywords: ['celery', 'celeriac'],
+  },
+  mustard: {
+    label: 'mustard',
+    keywords: ['mustard'],
+  },
+  sulphite: {
+    label: 'sulphites',
+    keywords: ['sulphite', 'sulfite', 'wine', 'dried apricot'],
+  },
+  lupin: {
+    label: 'lupin',
+    keywords: ['lupin'],
+  },
+  meat: {
+    label: 'meat',
+    keywords: [
+      'meat', 'beef', 'steak', 'mince', 'pork', 'bacon', 'ham', 'gammon', 'sausage', 'chorizo', 'salami', 'pepperoni',
+      'prosciutto', 'pancetta', 'lamb', 'mutton', 'chicken', 'turkey', 'duck', 'goose', 'venison', 'veal', 'rabbit',
+      'pheasant', 'liver', 'kidney', 'oxtail', 'brisket', 'burger', 'meatball', 'lard', 'suet', 'dripping', 'bone broth',
+    ],
+    exceptions: ['kidney bean', 'duck egg', 'vegetable suet'],
+    freeFrom: ['vegetarian', 'vegan', 'veggie', 'meat free', 'plant based', 'quorn', 'soya mince', 'bean burger'],
+  },
+  pork: {
+    label: 'pork',
+    keywords: [
+      'pork', 'bacon', 'ham', 'gammon', 'chorizo', 'salami', 'pepperoni', 'prosciutto', 'pancetta', 'lard',
+      'black pudding', 'guanciale',
+    ],
+    freeFrom: ['turkey bacon', 'beef bacon', 'vegetarian', 'vegan', 'veggie'],
+    dietFreeFrom: { halal: ['halal'] },
+  },
+  alcohol: {
+    label: 'alcohol',
+    keywords: [
+      'wine', 'beer', 'ale', 'lager', 'cider', 'rum', 'brandy', 'sherry', 'vodka', 'gin', 'whisky', 'whiskey',
+      'bourbon', 'mirin', 'sake', 'marsala', 'cognac', 'liqueur', 'stout', 'prosecco', 'champagne',
+    ],
+    exceptions: ['wine vinegar', 'cider vinegar', 'ginger beer', 'root beer'],
+    freeFrom: ['alcohol free', 'non alcoholic'],
+  },
+  gelatine: {
+    label: 'gelatine',
+    keywords: ['gelatine', 'gelatin', 'marshmallow'],
+    freeFrom: ['vegan', 'vegetarian', 'agar'],
+    dietFreeFrom: { halal: ['halal'] },
+  },
+  honey: {
+    label: 'honey',
+    keywords: ['honey'],
+  },
+} satisfies Record<string, IngredientGroup>;
+
+type GroupKey = keyof typeof GROUPS;
+
+/**
+ * User allergy terms (normalised, looked up as typed and singularised) mapped to allergen groups.
+ * Anything else is matched literally, in singular and plural form.
+ */
+const ALLERGY_ALIASES: Record<string, GroupKey[]> = {
+  peanut: ['peanut'],
+  peanuts: ['peanut'],
+  groundnut: ['peanut'],
+  nut: ['peanut', 'tree_nut'],
+  nuts: ['peanut', 'tree_nut'],
+  'tree nut': ['tree_nut'],
+  'tree nuts': ['tree_nut'],
+  almond: ['tree_nut'],
+  cashew: ['tree_nut'],
+  hazelnut: ['tree_nut'],
+  pecan: ['tree_nut'],
+  pistachio: ['tree_nut'],
+  walnut: ['tree_nut'],
+  macadamia: ['tree_nut'],
+  'brazil nut': ['tree_nut'],
+  'pine nut': ['tree_nut'],
+  milk: ['milk'],
+  dairy: ['milk'],
+  lactose: ['milk'],
+  egg: ['egg'],
+  eggs: ['egg'],
+  gluten: ['gluten'],
+  wheat: ['gluten'],
+  coeliac: ['gluten'],
+  celiac: ['gluten'],
+  soy: ['soy'],
+  soya: ['soy'],
+  fish: ['fish'],
+  shellfish: ['crustacean', 'mollusc'],
+  crustacean: ['crustacean'],
+  crustaceans: ['crustacean'],
+  prawn: ['crustacean'],
+  shrimp: ['crustacean'],
+  mollusc: ['mollusc'],
+  molluscs: ['mollusc'],
+  seafood: ['fish', 'crustacean', 'mollusc'],
+  sesame: ['sesame'],
+  celery: ['celery'],
+  mustard: ['mustard'],
+  sulphite: ['sulphite'],
+  sulphites: ['sulphite'],
+  sulfite: ['sulphite'],
+  sulfites: ['sulphite'],
+  lupin: ['lupin'],
+};
+
+/** Dietary preferences (normalised) mapped to the groups they exclude. Unlisted preferences are not enforced. */
+const DIET_RULES: Record<string, GroupKey[]> = {
+  vegetarian: ['meat', 'fish', 'crustacean', 'mollusc', 'gelatine'],
+  vegan: ['meat', 'fish', 'crustacean', 'mollusc', 'gelatine', 'milk', 'egg', 'honey'],
+  pescatarian: ['meat', 'gelatine'],
+  pescetarian: ['meat', 'gelatine'],
+  halal: ['pork', 'alcohol', 'gelatine'],
+  kosher: ['pork', 'crustacean', 'mollusc'],
+  'gluten free': ['gluten'],
+  coeliac: ['gluten'],
+  'dairy free': ['milk'],
+  'lactose free': ['milk'],
+  'nut free': ['peanut', 'tree_nut'],
+  'egg free': ['egg'],
+  'no pork': ['pork'],
+  'pork free': ['pork'],
+  'alcohol free': ['alcohol'],
+  teetotal: ['alcohol'],
+};
+
+/** The parts of a recipe the rules look at; satisfied by MealPlanRecipe. */
+export interface CheckableRecipe {
+  day_of_week: string;
+  meal_slot: string;
+  title: string;
+  ingredients: Array<{ ingredient_name: string }>;
+}
+
+export interface DietaryRequirements {
+  allergies: string[];
+  dietary_preferences: string[];
+}
+
+export interface DietaryViolation {
+  recipe_index: number;
+  day_of_week: string;
+  meal_slot: string;
+  recipe_title: string;
+  /** Null when the match was in the recipe title rather than an ingredient. */
+  ingredient_name: string | null;
+  /** e.g. "allergy:nuts" or "diet:vegetarian" */
+  rule: string;
+  matched: string;
+  message: string;
+}
+
+export interface DietaryCheckResult {
+  passed: boolean;
+  violations: DietaryViolation[];
+  offending_recipe_indexes: number[];
+  /** Preferences we pass to Claude but cannot enforce (e.g. "low carb"). */
+  unenforced_preferences: string[];
+}
+
+interface CompiledRule {
+  id: string;
+  description: string;
+  group: IngredientGroup;
+  /** The group's freeFrom phrases plus any that hold for the diet being checked. */
+  freeFrom: string[];
+  patterns: Array<{ keyword: string; regex: RegExp }>;
+}
+
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** The phrase and its plural forms: "egg(s)", "peach(es)", "strawberry"/"strawberries". */
+function pluralPattern(phrase: string): string {
+  const normalized = normalizeText(phrase);
+  if (/[^aeiou ]y$/.test(normalized)) return `${escapeRegex(normalized.slice(0, -1))}(?:y|ies)`;
+  return `${escapeRegex(normalized)}(?:s|es)?`;
+}
+
+function phraseRegex(phrase: string): RegExp {
+  return new RegExp(`(?:^| )${pluralPattern(phrase)}(?= |$)`);
+}
+
+function compileGroup(id: string, description: string, group: IngredientGroup, diet?: string): CompiledRule {
+  return {
+    id,
+    description,
+    group,
+    freeFrom: [...(group.freeFrom ?? []), ...((diet && group.dietFreeFrom?.[diet]) || [])],
+    patterns: group.keywords.map((keyword) => ({ keyword, regex: phraseRegex(keyword) })),
+  };
+}
+
+function compileRules(requirements: DietaryRequirements): { rules: CompiledRule[]; unenforced: string[] } {
+  const rules: CompiledRule[] = [];
+  const unenforced: string[] = [];
+
+  for (const allergy of requirements.allergies) {
+    const term = normalizeText(allergy);
+    if (!term) continue;
+    // "Prawns" should also catch "king prawn": match the singular, which pluralPattern extends.
+    const singular = normalizeIngredientName(term);
+    const groups = ALLERGY_ALIASES[term] ?? ALLERGY_ALIASES[singular];
+    if (groups) {
+      for (const key of groups) {
+        rules.push(compileGroup(`allergy:${allergy}`, `allergy to ${allergy} (${GROUPS[key].label})`, GROUPS[key]));
+      }
+    } else {
+      const keywords = [...new Set([singular, term])];
+      rules.push(compileGroup(`allergy:${allergy}`, `allergy to ${allergy}`, { label: allergy, keywords }));
+    }
+  }
+
+  for (const preference of requirements.dietary_preferences) {
+    const diet = normalizeText(preference);
+    const groups = DIET_RULES[diet];
+    if (!groups) {
+      unenforced.push(preference);
+      continue;
+    }
+    for (const key of groups) {
+      rules.push(compileGroup(`diet:${preference}`, `${preference} diet (no ${GROUPS[key].label})`, GROUPS[key], diet));
+    }
+  }
+
+  return { rules, unenforced };
+}
+
+/** Returns the first keyword of the rule found in text, or null. */
+function matchRule(rule: CompiledRule, text: string): string | null {
+  let normalized = ` ${normalizeText(text)} `;
+  if (rule.freeFrom.some((phrase) => normalized.includes(` ${normalizeText(phrase)} `))) {
+    return null;
+  }
+  for (const exception of rule.group.exceptions ?? []) {
+    normalized = normalized.replace(new RegExp(` ${pluralPattern(exception)}(?= )`, 'g'), ' ');
+  }
+  normalized = normalized.trim();
+  for (const { keyword, regex } of rule.patterns) {
+    if (regex.test(normalized)) return keyword;
+  }
+  return null;
+}
+
+export function hasDietaryRequirements(requirements: DietaryRequirements): boolean {
+  return requirements.allergies.length > 0 || requirements.dietary_preferences.length > 0;
+}
+
+function checkRecipe(recipe: CheckableRecipe, index: number, rules: CompiledRule[]): DietaryViolation[] {
+  const violations: DietaryViolation[] = [];
+  const base = {
+    recipe_index: index,
+    day_of_week: recipe.day_of_week,
+    meal_slot: recipe.meal_slot,
+    recipe_title: recipe.title,
+  };
+  // null stands for the recipe title
+  const sources: Array<string | null> = [null, ...recipe.ingredients.map((ing) => ing.ingredient_name)];
+
+  for (const rule of rules) {
+    for (const ingredientName of sources) {
+      const text = ingredientName ?? recipe.title;
+      const matched = matchRule(rule, text);
+      if (matched == null) continue;
+      violations.push({
+        ...base,
+        ingredient_name: ingredientName,
+        rule: rule.id,
+        matched,
+        message: `"${text}" conflicts with ${rule.description}`,
+      });
+    }
+  }
+
+  // The same ingredient can trip several groups of one rule (e.g. "nuts"); report it once per rule.
+  const seen = new Set<string>();
+  return violations.filter((v) => {
+    const key = `${v.rule}|${v.ingredient_name ?? ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/** Checks every recipe in the plan; recipes without a recognised rule match pass. */
+export function checkMealPlan(
+  plan: { recipes: CheckableRecipe[] },
+  requirements: DietaryRequirements
+): DietaryCheckResult {
+  const { rules, unenforced } = compileRules(requirements);
+  const violations = rules.length > 0 ? plan.recipes.flatMap((recipe, i) => checkRecipe(recipe, i, rules)) : [];
+  const offending = [...new Set(violations.map((v) => v.recipe_index))];
+  return {
+    passed: violations.length === 0,
+    violations,
+    offending_recipe_indexes: offending,
+    unenforced_preferences: unenforced,
+  };
+}
+
+/** One line per offending recipe, used when asking Claude for replacements. */
+export function describeViolations(violations: DietaryViolation[]): string {
+  const byRecipe = new Map<number, DietaryViolation[]>();
+  for (const v of violations) {
+    byRecipe.set(v.recipe_index, [...(byRecipe.get(v.recipe_index) ?? []), v]);
+  }
+  return [...byRecipe.values()]
+    .map((vs) => {
+      const { day_of_week, meal_slot, recipe_title } = vs[0];
+      return `- ${day_of_week} ${meal_slot} "${recipe_title}": ${vs.map((v) => v.message).join('; ')}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,37 @@
+/**
+ * Meal plan lifecycle: draft → active (for a given week) → completed, with archive/restore.
+ */
+export const MEAL_PLAN_STATUSES = ['draft', 'active', 'completed', 'archived'] as const;
+export type MealPlanStatus = (typeof MEAL_PLAN_STATUSES)[number];
+
+const TRANSITIONS: Record<MealPlanStatus, readonly MealPlanStatus[]> = {
+  draft: ['active', 'archived'],
+  active: ['completed', 'draft', 'archived'],
+  completed: ['archived'],
+  archived: ['draft'],
+};
+
+export function isMealPlanStatus(value: unknown): value is MealPlanStatus {
+  return typeof value === 'string' && (MEAL_PLAN_STATUSES as readonly string[]).includes(value);
+}
+
+export function allowedTransitions(from: MealPlanStatus): readonly MealPlanStatus[] {
+  return TRANSITIONS[from];
+}
+
+export function canTransition(from: MealPlanStatus, to: MealPlanStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/** Parses a real calendar date in YYYY-MM-DD format; null otherwise. */
+export function parseIsoDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value ? value : null;
+}
+
+/** Parses a YYYY-MM-DD date that falls on a Monday (plans run Monday–Sunday); null otherwise. */
+export function parseWeekStartDate(value: unknown): string | null {
+  const date = parseIsoDate(value);
+  return date != null && new Date(`${date}T00:00:00Z`).getUTCDay() === 1 ? date : null;
+}
@@ -0,0 +1,398 @@
+import type { PoolClient } from 'pg';
+import type { MealPlan, MealPlanRecipe } from './meal-plan';
+import { allowedTransitions, canTransition, type MealPlanStatus } from './meal-plan-status';
+
+/**
+ * Persistence for validated meal plans. Callers own the transaction (BEGIN/COMMIT/ROLLBACK).
+ */
+
+/** Inserts a recipe and its ingredients into a plan; returns the new recipe id. */
+export async function insertRecipe(client: PoolClient, mealPlanId: number, recipe: MealPlanRecipe): Promise<number> {
+  const recipeResult = await client.query<{ id: number }>(
+    `INSERT INTO recipes (meal_plan_id, day_of_week, meal_slot, title, instructions, prep_time, cook_time, estimated_cost, calories, protein, carbs, fat)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12) RETURNING id`,
+    [
+      mealPlanId,
+      recipe.day_of_week,
+      recipe.meal_slot,
+      recipe.title,
+      recipe.instructions,
+      recipe.prep_time,
+      recipe.cook_time,
+      recipe.estimated_cost,
+      recipe.calories,
+      recipe.protein,
+      recipe.carbs,
+      recipe.fat,
+    ]
+  );
+  const recipeId = recipeResult.rows[0].id;
+  await insertIngredients(client, recipeId, recipe);
+  return recipeId;
+}
+
+async function insertIngredients(client: PoolClient, recipeId: number, recipe: MealPlanRecipe): Promise<void> {
+  for (const ing of recipe.ingredients) {
+    await client.query(
+      `INSERT INTO ingredients (recipe_id, ingredient_name, quantity, unit, category, estimated_price)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [recipeId, ing.ingredient_name, ing.quantity, ing.unit, ing.category, ing.estimated_price]
+    );
+  }
+}
+
+/** Overwrites a recipe row (keeping its id) and replaces all of its ingredients. */
+export async function updateRecipe(client: PoolClient, recipeId: number, recipe: MealPlanRecipe): Promise<void> {
+  await client.query(
+    `UPDATE recipes SET day_of_week = $1, meal_slot = $2, title = $3, instructions = $4, prep_time = $5, cook_time = $6,
+       estimated_cost = $7, calories = $8, protein = $9, carbs = $10, fat = $11
+     WHERE id = $12`,
+    [
+      recipe.day_of_week,
+      recipe.meal_slot,
+      recipe.title,
+      recipe.instructions,
+      recipe.prep_time,
+      recipe.cook_time,
+      recipe.estimated_cost,
+      recipe.calories,
+      recipe.protein,
+      recipe.carbs,
+      recipe.fat,
+      recipeId,
+    ]
+  );
+  await client.query('DELETE FROM ingredients WHERE recipe_id = $1', [recipeId]);
+  await insertIngredients(client, recipeId, recipe);
+}
+
+/** Recalculates meal_plans.total_estimated_cost from its recipes; returns the new total. */
+export async function recomputeMealPlanTotal(client: PoolClient, mealPlanId: number): Promise<number> {
+  const result = await client.query<{ total: string }>(
+    `UPDATE meal_plans
+     SET total_estimated_cost = (SELECT COALESCE(SUM(estimated_cost), 0) FROM recipes WHERE meal_plan_id = $1)
+     WHERE id = $1
+     RETURNING total_estimated_cost AS total`,
+    [mealPlanId]
+  );
+  return toNumber(result.rows[0]?.total) ?? 0;
+}
+
+/**
+ * Multiplies a recipe's ingredient quantities, ingredient prices and estimated cost by factor.
+ * Nutrition is per serving, so it does not change.
+ */
+async function multiplyRecipeAmounts(client: PoolClient, recipeId: number, factor: number): Promise<void> {
+  await client.query(
+    `UPDATE ingredients
+     SET quantity = ROUND(quantity * $2, 3), estimated_price = ROUND(estimated_price * $2, 2)
+     WHERE recipe_id = $1`,
+    [recipeId, factor]
+  );
+  await client.query('UPDATE recipes SET estimated_cost = ROUND(estimated_cost * $2, 2) WHERE id = $1', [recipeId, factor]);
+}
+
+/**
+ * Rescales every recipe in the plan to the given servings (clearing per-recipe overrides), stores the
+ * new plan servings and recomputes the total. Recipes whose current servings are unknown are left as-is.
+ */
+export async function scaleMealPlan(client: PoolClient, mealPlanId: number, servings: number): Promise<number> {
+  const recipesResult = await client.query<{ id: number; servings: number | null }>(
+    `SELECT r.id, COALESCE(r.servings, mp.servings) AS servings
+     FROM recipes r JOIN meal_plans mp ON mp.id = r.meal_plan_id
+     WHERE r.meal_plan_id = $1`,
+    [mealPlanId]
+  );
+  for (const row of recipesResult.rows) {
+    if (row.servings != null && row.servings !== servings) {
+      await multiplyRecipeAmounts(client, row.id, servings / row.servings);
+    }
+  }
+  await client.query('UPDATE recipes SET servings = NULL WHERE meal_plan_id = $1', [mealPlanId]);
+  await client.query('UPDATE meal_plans SET servings = $2 WHERE id = $1', [mealPlanId, servings]);
+  return recomputeMealPlanTotal(client, mealPlanId);
+}
+
+/** Rescales one recipe to the given servings, independently of the plan; returns the new plan total. */
+export async function scaleRecipe(
+  client: PoolClient,
+  mealPlanId: number,
+  recipeId: number,
+  servings: number
+): Promise<number> {
+  const result = await client.query<{ servings: number | null; plan_servings: number | null }>(
+    `SELECT r.servings, mp.servings AS plan_servings
+     FROM recipes r JOIN meal_plans mp ON mp.id = r.meal_plan_id
+     WHERE r.id = $1 AND r.meal_plan_id = $2`,
+    [recipeId, mealPlanId]
+  );
+  const current = result.rows[0]?.servings ?? result.rows[0]?.plan_servings ?? null;
+  if (current != null && current !== servings) {
+    await multiplyRecipeAmounts(client, recipeId, servings / current);
+  }
+  const override = servings === result.rows[0]?.plan_servings ? null : servings;
+  await client.query('UPDATE recipes SET servings = $2 WHERE id = $1', [recipeId, override]);
+  return recomputeMealPlanTotal(client, mealPlanId);
+}
+
+/** Inserts a draft plan with all recipes; total_estimated_cost is the sum of recipe costs. */
+export async function insertMealPlan(
+  client: PoolClient,
+  userId: number,
+  plan: MealPlan,
+  conversationId: string | null = null
+): Promise<{ id: number; total_estimated_cost: number }> {
+  const totalEstimatedCost =
+    Math.round(plan.recipes.reduce((sum, r) => sum + (r.estimated_cost ?? 0), 0) * 100) / 100;
+
+  const mealPlanResult = await client.query<{ id: number }>(
+    `INSERT INTO meal_plans (user_id, plan_name, total_estimated_cost, servings, status, conversation_id)
+     VALUES ($1, $2, $3, $4, 'draft', $5) RETURNING id`,
+    [userId, plan.plan_name, totalEstimatedCost, plan.servings, conversationId]
+  );
+  const mealPlanId = mealPlanResult.rows[0].id;
+
+  for (const recipe of plan.recipes) {
+    await insertRecipe(client, mealPlanId, recipe);
+  }
+
+  return { id: mealPlanId, total_estimated_cost: totalEstimatedCost };
+}
+
+export interface StoredIngredient {
+  id: number;
+  ingredient_name: string;
+  quantity: number | null;
+  unit: string | null;
+  category: string | null;
+  estimated_price: number | null;
+}
+
+export interface StoredRecipe {
+  id: number;
+  day_of_week: string;
+  meal_slot: string;
+  title: string;
+  instructions: string | null;
+  prep_time: number | null;
+  cook_time: number | null;
+  estimated_cost: number | null;
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  /** Servings the quantities are for: the recipe's own override or the plan's servings. */
+  servings: number | null;
+  ingredients: StoredIngredient[];
+}
+
+export interface MealPlanSummary {
+  id: number;
+  plan_name: string | null;
+  total_estimated_cost: number | null;
+  servings: number | null;
+  status: MealPlanStatus;
+  /** YYYY-MM-DD Monday the plan is (or was) active for; null for drafts. */
+  week_start_date: string | null;
+  /** Chat conversation the plan was saved from, if any. */
+  conversation_id: string | null;
+  created_at: Date;
+  recipes_count: number;
+}
+
+export interface StoredMealPlan extends Omit<MealPlanSummary, 'recipes_count'> {
+  recipes: StoredRecipe[];
+}
+
+/** pg returns DECIMAL columns as strings. */
+export function toNumber(value: string | number | null | undefined): number | null {
+  if (value == null) return null;
+  const n = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** SQL ORDER BY fragment that sorts recipes Monday→Sunday, breakfast→snack. */
+export const RECIPE_ORDER_SQL = `array_position(ARRAY['Monday','Tuesday','Wednesday','Thursday','Friday','Saturday','Sunday']::varchar[], r.day_of_week),
+  array_position(ARRAY['breakfast','lunch','dinner','snack']::varchar[], r.meal_slot), r.id`;
+
+const SUMMARY_COLUMNS = `mp.id, mp.plan_name, mp.total_estimated_cost, mp.servings, mp.status,
+  to_char(mp.week_start_date, 'YYYY-MM-DD') AS week_start_date, mp.conversation_id, mp.created_at,
+  (SELECT COUNT(*) FROM recipes r WHERE r.meal_plan_id = mp.id)::int AS recipes_count`;
+
+interface MealPlanSummaryRow {
+  id: number;
+  plan_name: string | null;
+  total_estimated_cost: string | null;
+  servings: number | null;
+  status: MealPlanStatus;
+  week_start_date: string | null;
+  conversation_id: string | null;
+  created_at: Date;
+  recipes_count: number;
+}
+
+function rowToSummary(row: MealPlanSummaryRow): MealPlanSummary {
+  return {
+    id: row.id,
+    plan_name: row.plan_name,
+    total_estimated_cost: toNumber(row.total_estimated_cost),
+    servings: row.servings,
+    status: row.status,
+    week_start_date: row.week_start_date,
+    conversation_id: row.conversation_id,
+    created_at: row.created_at,
+    recipes_count: row.recipes_count,
+  };
+}
+
+export async function listMealPlans(
+  client: PoolClient,
+  userId: number,
+  opts: { status?: MealPlanStatus; conversationId?: string; limit: number; offset: number }
+): Promise<{ meal_plans: MealPlanSummary[]; total: number }> {
+  const params: unknown[] = [userId];
+  let where = 'mp.user_id = $1';
+  if (opts.status) {
+    params.push(opts.status);
+    where += ` AND mp.status = $${params.length}`;
+  }
+  if (opts.conversationId) {
+    params.push(opts.conversationId);
+    where += ` AND mp.conversation_id = $${params.length}`;
+  }
+
+  const countResult = await client.query<{ total: number }>(
+    `SELECT COUNT(*)::int AS total FROM meal_plans mp WHERE ${where}`,
+    params
+  );
+  const listResult = await client.query<MealPlanSummaryRow>(
+    `SELECT ${SUMMARY_COLUMNS} FROM meal_plans mp
+     WHERE ${where}
+     ORDER BY mp.created_at DESC, mp.id DESC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, opts.limit, opts.offset]
+  );
+
+  return { meal_plans: listResult.rows.map(rowToSummary), total: countResult.rows[0].total };
+}
+
+/** Summary of a plan owned by userId, or null if it does not exist or belongs to someone else. */
+export async function loadMealPlanSummary(
+  client: PoolClient,
+  userId: number,
+  planId: number
+): Promise<MealPlanSummary | null> {
+  const result = await client.query<MealPlanSummaryRow>(
+    `SELECT ${SUMMARY_COLUMNS} FROM meal_plans mp WHERE mp.id = $1 AND mp.user_id = $2`,
+    [planId, userId]
+  );
+  return result.rows[0] ? rowToSummary(result.rows[0]) : null;
+}
+
+/** Full plan with recipes (in week order) and their ingredients, or null if not owned by userId. */
+export async function loadMealPlan(client: PoolClient, userId: number, planId: number): Promise<StoredMealPlan | null> {
+  const summary = await loadMealPlanSummary(client, userId, planId);
+  if (!summary) return null;
+
+  const recipesResult = await client.query(
+    `SELECT r.id, r.day_of_week, r.meal_slot, r.title, r.instructions, r.prep_time, r.cook_time,
+            r.estimated_cost, r.calories, r.protein, r.carbs, r.fat, r.servings
+     FROM recipes r WHERE r.meal_plan_id = $1
+     ORDER BY ${RECIPE_ORDER_SQL}`,
+    [planId]
+  );
+  const ingredientsResult = await client.query(
+    `SELECT i.id, i.recipe_id, i.ingredient_name, i.quantity, i.unit, i.category, i.estimated_price
+     FROM ingredients i JOIN recipes r ON r.id = i.recipe_id
+     WHERE r.meal_plan_id = $1
+     ORDER BY i.id`,
+    [planId]
+  );
+
+  const ingredientsByRecipe = new Map<number, StoredIngredient[]>();
+  for (const row of ingredientsResult.rows) {
+    const list = ingredientsByRecipe.get(row.recipe_id) ?? [];
+    list.push({
+      id: row.id,
+      ingredient_name: row.ingredient_name,
+      quantity: toNumber(row.quantity),
+      unit: row.unit,
+      category: row.category,
+      estimated_price: toNumber(row.estimated_price),
+    });
+    ingredientsByRecipe.set(row.recipe_id, list);
+  }
+
+  const { recipes_count: _count, ...plan } = summary;
+  return {
+    ...plan,
+    recipes: recipesResult.rows.map((row) => ({
+      id: row.id,
+      day_of_week: row.day_of_week,
+      meal_slot: row.meal_slot,
+      title: row.title,
+      instructions: row.instructions,
+      prep_time: row.prep_time,
+      cook_time: row.cook_time,
+      estimated_cost: toNumber(row.estimated_cost),
+      calories: row.calories,
+      protein: toNumber(row.protein),
+      carbs: toNumber(row.carbs),
+      fat: toNumber(row.fat),
+      servings: row.servings ?? plan.servings,
+      ingredients: ingredientsByRecipe.get(row.id) ?? [],
+    })),
+  };
+}
+
+export type StatusTransitionResult =
+  | { ok: true; plan: MealPlanSummary }
+  | { ok: false; reason: 'not_found' }
+  | { ok: false; reason: 'invalid_transition'; from: MealPlanStatus; allowed: readonly MealPlanStatus[] }
+  | { ok: false; reason: 'week_conflict'; conflicting_plan_id: number };
+
+/**
+ * Moves a plan to a new status inside the caller's transaction. Activating sets the week the plan runs
+ * for and fails if another plan is already active that week; returning to draft clears it.
+ */
+export async function transitionMealPlanStatus(
+  client: PoolClient,
+  userId: number,
+  planId: number,
+  to: MealPlanStatus,
+  weekStartDate: string | null
+): Promise<StatusTransitionResult> {
+  const current = await client.query<{ status: MealPlanStatus }>(
+    'SELECT status FROM meal_plans WHERE id = $1 AND user_id = $2 FOR UPDATE',
+    [planId, userId]
+  );
+  if (current.rows.length === 0) return { ok: false, reason: 'not_found' };
+
+  const from = current.rows[0].status;
+  if (!canTransition(from, to)) {
+    return { ok: false, reason: 'invalid_transition', from, allowed: allowedTransitions(from) };
+  }
+
+  if (to === 'active') {
+    const conflict = await client.query<{ id: number }>(
+      `SELECT id FROM meal_plans
+       WHERE user_id = $1 AND week_start_date = $2 AND status = 'active' AND id <> $3`,
+      [userId, weekStartDate, planId]
+    );
+    if (conflict.rows.length > 0) {
+      return { ok: false, reason: 'week_conflict', conflicting_plan_id: conflict.rows[0].id };
+    }
+  }
+
+  await client.query(
+    `UPDATE meal_plans
+     SET status = $1::varchar,
+         week_start_date = CASE WHEN $1::varchar = 'active' THEN $2::date WHEN $1::varchar = 'draft' THEN NULL ELSE week_start_date END,
+         status_updated_at = CURRENT_TIMESTAMP
+     WHERE id = $3`,
+    [to, weekStartDate, planId]
+  );
+
+  const plan = await loadMealPlanSummary(client, userId, planId);
+  return plan ? { ok: true, plan } : { ok: false, reason: 'not_found' };
+}
@@ -0,0 +1,280 @@
+/**
+ * Meal plan schema (runtime validation with field-level errors) and helpers to extract the
+ * plan JSON from assistant text.
+ */
+export const VALID_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'] as const;
+export const VALID_MEAL_SLOTS = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+export type DayOfWeek = (typeof VALID_DAYS)[number];
+export type MealSlot = (typeof VALID_MEAL_SLOTS)[number];
+
+export interface MealPlanIngredient {
+  ingredient_name: string;
+  quantity: number | null;
+  unit: string | null;
+  category: string | null;
+  estimated_price: number | null;
+}
+
+export interface MealPlanRecipe {
+  day_of_week: DayOfWeek;
+  meal_slot: MealSlot;
+  title: string;
+  instructions: string;
+  prep_time: number | null;
+  cook_time: number | null;
+  estimated_cost: number | null;
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  ingredients: MealPlanIngredient[];
+}
+
+/** A recipe's content without its place in a plan (library and imported recipes). */
+export type RecipeDetails = Omit<MealPlanRecipe, 'day_of_week' | 'meal_slot'>;
+
+/** A meal plan that has passed validateMealPlan. */
+export interface MealPlan {
+  plan_name: string;
+  servings: number;
+  recipes: MealPlanRecipe[];
+}
+
+/** A JSON object with a "recipes" array, as found in assistant text; not yet validated. */
+export type MealPlanCandidate = Record<string, unknown> & { recipes: unknown[] };
+
+export interface ValidationError {
+  /** e.g. "recipes[2].ingredients[0].quantity" */
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: ValidationError[] };
+
+const MAX_RECIPES = 50;
+const MAX_INGREDIENTS = 50;
+export const MAX_SERVINGS = 50;
+
+/** Collects errors for one object; each field reader returns the validated value or undefined. */
+class FieldReader {
+  constructor(
+    private readonly obj: Record<string, unknown>,
+    private readonly basePath: string,
+    private readonly errors: ValidationError[]
+  ) {}
+
+  private path(field: string): string {
+    return this.basePath ? `${this.basePath}.${field}` : field;
+  }
+
+  fail(field: string, message: string): undefined {
+    this.errors.push({ path: this.path(field), message });
+    return undefined;
+  }
+
+  string(field: string, opts: { required: boolean; maxLength: number }): string | null | undefined {
+    const value = this.obj[field];
+    if (value == null || (typeof value === 'string' && !value.trim())) {
+      return opts.required ? this.fail(field, 'is required') : null;
+    }
+    if (typeof value !== 'string') return this.fail(field, 'must be a string');
+    if (value.trim().length > opts.maxLength) return this.fail(field, `must be at most ${opts.maxLength} characters`);
+    return value.trim();
+  }
+
+  number(
+    field: string,
+    opts: { required?: boolean; integer?: boolean; min?: number; exclusiveMin?: boolean; max?: number } = {}
+  ): number | null | undefined {
+    const value = this.obj[field];
+    if (value == null) return opts.required ? this.fail(field, 'is required') : null;
+    if (typeof value !== 'number' || !Number.isFinite(value)) return this.fail(field, 'must be a number');
+    if (opts.integer && !Number.isInteger(value)) return this.fail(field, 'must be an integer');
+    if (opts.min != null && (opts.exclusiveMin ? value <= opts.min : value < opts.min)) {
+      return this.fail(field, `must be ${opts.exclusiveMin ? 'greater than' : 'at least'} ${opts.min}`);
+    }
+    if (opts.max != null && value > opts.max) return this.fail(field, `must be at most ${opts.max}`);
+    return value;
+  }
+
+  oneOf<T extends string>(field: string, allowed: readonly T[]): T | undefined {
+    const value = this.obj[field];
+    if (value == null || value === '') return this.fail(field, 'is required');
+    const match = typeof value === 'string' ? allowed.find((a) => a.toLowerCase() === value.trim().toLowerCase()) : undefined;
+    return match ?? this.fail(field, `must be one of: ${allowed.join(', ')}`);
+  }
+
+  array(field: string, opts: { minItems: number; maxItems: number }): unknown[] | undefined {
+    const value = this.obj[field];
+    if (!Array.isArray(value)) return this.fail(field, 'must be an array');
+    if (value.length < opts.minItems) return this.fail(field, `must contain at least ${opts.minItems} item(s)`);
+    if (value.length > opts.maxItems) return this.fail(field, `must contain at most ${opts.maxItems} items`);
+    return value;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function readIngredient(value: unknown, path: string, errors: ValidationError[]): MealPlanIngredient | undefined {
+  if (!isObject(value)) {
+    errors.push({ path, message: 'must be an object' });
+    return undefined;
+  }
+  const before = errors.length;
+  const f = new FieldReader(value, path, errors);
+  const ingredient = {
+    ingredient_name: f.string('ingredient_name', { required: true, maxLength: 255 }),
+    quantity: f.number('quantity', { min: 0, exclusiveMin: true }),
+    unit: f.string('unit', { required: false, maxLength: 50 }),
+    category: f.string('category', { required: false, maxLength: 100 }),
+    estimated_price: f.number('estimated_price', { min: 0 }),
+  };
+  return errors.length === before ? (ingredient as MealPlanIngredient) : undefined;
+}
+
+function readRecipe(value: unknown, path: string, errors: ValidationError[]): MealPlanRecipe | undefined {
+  if (!isObject(value)) {
+    errors.push({ path, message: 'must be an object' });
+    return undefined;
+  }
+  const before = errors.length;
+  const f = new FieldReader(value, path, errors);
+  const placement = {
+    day_of_week: f.oneOf('day_of_week', VALID_DAYS),
+    meal_slot: f.oneOf('meal_slot', VALID_MEAL_SLOTS),
+  };
+  const details = readRecipeDetails(value, path, errors);
+  return errors.length === before ? ({ ...placement, ...details } as MealPlanRecipe) : undefined;
+}
+
+function readRecipeDetails(value: Record<string, unknown>, path: string, errors: ValidationError[]): RecipeDetails | undefined {
+  const before = errors.length;
+  const f = new FieldReader(value, path, errors);
+  const recipe = {
+    title: f.string('title', { required: true, maxLength: 255 }),
+    instructions: f.string('instructions', { required: false, maxLength: 20000 }) ?? '',
+    prep_time: f.number('prep_time', { integer: true, min: 0, max: 1440 }),
+    cook_time: f.number('cook_time', { integer: true, min: 0, max: 1440 }),
+    estimated_cost: f.number('estimated_cost', { min: 0 }),
+    calories: f.number('calories', { integer: true, min: 0 }),
+    protein: f.number('protein', { min: 0 }),
+    carbs: f.number('carbs', { min: 0 }),
+    fat: f.number('fat', { min: 0 }),
+    ingredients: (f.array('ingredients', { minItems: 1, maxItems: MAX_INGREDIENTS }) ?? []).map((ing, i) =>
+      readIngredient(ing, `${path}.ingredients[${i}]`, errors)
+    ),
+  };
+  return errors.length === before ? (recipe as RecipeDetails) : undefined;
+}
+
+/** Validates a single ingredient line (used for manually added shopping list items). */
+export function validateIngredient(value: unknown, path = 'item'): ValidationResult<MealPlanIngredient> {
+  const errors: ValidationError[] = [];
+  const ingredient = readIngredient(value, path, errors);
+  return ingredient ? { ok: true, value: ingredient } : { ok: false, errors };
+}
+
+/** Validates a single recipe (used for replacement recipes and per-recipe edits). */
+export function validateRecipe(value: unknown, path = 'recipe'): ValidationResult<MealPlanRecipe> {
+  const errors: ValidationError[] = [];
+  const recipe = readRecipe(value, path, errors);
+  return recipe ? { ok: true, value: recipe } : { ok: false, errors };
+}
+
+/** Validates a recipe without day_of_week and meal_slot (imported recipes bound for the library). */
+export function validateRecipeDetails(value: unknown, path = 'recipe'): ValidationResult<RecipeDetails> {
+  if (!isObject(value)) return { ok: false, errors: [{ path, message: 'must be an object' }] };
+  const errors: ValidationError[] = [];
+  const recipe = readRecipeDetails(value, path, errors);
+  return recipe ? { ok: true, value: recipe } : { ok: false, errors };
+}
+
+/**
+ * Runtime schema for meal plans, shared by the /chat parser and POST /meal-plan.
+ * Day and slot names are matched case-insensitively; everything else must already have the right type.
+ */
+export function validateMealPlan(value: unknown): ValidationResult<MealPlan> {
+  const errors: ValidationError[] = [];
+  if (!isObject(value)) {
+    return { ok: false, errors: [{ path: '', message: 'must be a JSON object' }] };
+  }
+  const f = new FieldReader(value, '', errors);
+  const plan = {
+    plan_name: f.string('plan_name', { required: true, maxLength: 255 }),
+    servings: f.number('servings', { required: true, integer: true, min: 1, max: MAX_SERVINGS }),
+    recipes: (f.array('recipes', { minItems: 1, maxItems: MAX_RECIPES }) ?? []).map((r, i) =>
+      readRecipe(r, `recipes[${i}]`, errors)
+    ),
+  };
+  return errors.length === 0 ? { ok: true, value: plan as MealPlan } : { ok: false, errors };
+}
+
+/** "path: message" lines, used in API responses and repair prompts. */
+export function formatValidationErrors(errors: ValidationError[]): string {
+  return errors.map((e) => `- ${e.path || '(root)'}: ${e.message}`).join('\n');
+}
+
+/** Finds the meal-plan JSON in assistant text. The result still needs validateMealPlan. */
+export function parseRecipeJSON(text: string): MealPlanCandidate | null {
+  // Scan for every top-level {...} block and return the first one that contains
+  // a "recipes" array, rather than greedily matching from first { to last }.
+  let depth = 0;
+  let start = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (text[i] === '}') {
+      depth--;
+      if (depth === 0 && start !== -1) {
+        const candidate = text.slice(start, i + 1);
+        try {
+          const parsed = JSON.parse(candidate) as Record<string, unknown>;
+          if (parsed && typeof parsed === 'object' && Array.isArray(parsed.recipes)) {
+            return parsed as MealPlanCandidate;
+          }
+        } catch {
+          // not valid JSON, keep scanning
+        }
+        start = -1;
+      }
+    }
+  }
+  return null;
+}
+
+/** Remove the meal-plan JSON block from assistant text so the chat shows only conversational content. */
+export function messageWithoutJsonBlock(text: string): string {
+  // Remove entire ```json ... ``` code block first (non-greedy to closing ```)
+  let out = text.replace(/```json\s*[\s\S]*?```/g, '');
+
+  // Remove the first top-level {...} block that contains a "recipes" array,
+  // matching the same candidate chosen by parseRecipeJSON.
+  let depth = 0;
+  let start = -1;
+  for (let i = 0; i < out.length; i++) {
+    if (out[i] === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (out[i] === '}') {
+      depth--;
+      if (depth === 0 && start !== -1) {
+        const candidate = out.slice(start, i + 1);
+        try {
+          const parsed = JSON.parse(candidate) as Record<string, unknown>;
+          if (parsed && typeof parsed === 'object' && Array.isArray(parsed.recipes)) {
+            out = out.slice(0, start) + out.slice(i + 1);
+            break;
+          }
+        } catch {
+          // not valid JSON, keep scanning
+        }
+        start = -1;
+      }
+    }
+  }
+
+  return out.replace(/\n{3,}/g, '\n\n').trim() || text;
+}
@@ -0,0 +1,251 @@
+import type { PoolClient } from 'pg';
+import { toNumber, type StoredMealPlan } from './meal-plan-store';
+
+/**
+ * Nutrition summaries for meal plans and per-user daily targets. Recipe calories, protein, carbs and
+ * fat are per serving, so a day's total is what one person eats that day; plan totals are also given
+ * for every serving cooked.
+ */
+export const NUTRIENTS = ['calories', 'protein', 'carbs', 'fat'] as const;
+export type Nutrient = (typeof NUTRIENTS)[number];
+
+export type NutritionTotals = Record<Nutrient, number>;
+
+/** Daily targets per person; null means no target for that nutrient. */
+export type NutritionTargets = Record<Nutrient, number | null>;
+
+/** A day counts as on target within this fraction either side of the target. */
+export const NUTRITION_TARGET_TOLERANCE = 0.1;
+
+const MAX_TARGET: NutritionTotals = { calories: 10000, protein: 1000, carbs: 2000, fat: 1000 };
+
+export interface NutrientComparison {
+  target: number;
+  actual: number;
+  /** actual − target: negative when short. */
+  difference: number;
+  status: 'short' | 'on_target' | 'over';
+}
+
+export interface DayNutrition {
+  day_of_week: string;
+  meal_slots: string[];
+  recipes_count: number;
+  /** Per person: the sum of each recipe's per-serving figures. */
+  per_person: NutritionTotals;
+  /** False when a recipe that day has no nutrition figures, so the totals are understated. */
+  complete: boolean;
+  /** Present when the user has targets; only nutrients with a target are compared. */
+  comparison?: Partial<Record<Nutrient, NutrientComparison>>;
+  short?: Nutrient[];
+  over?: Nutrient[];
+}
+
+export interface RecipeNutrition {
+  recipe_id: number;
+  day_of_week: string;
+  meal_slot: string;
+  title: string;
+  servings: number;
+  per_serving: Partial<NutritionTotals>;
+  /** per_serving × servings. */
+  total: Partial<NutritionTotals>;
+}
+
+export interface MealPlanNutrition {
+  meal_plan_id: number;
+  days: DayNutrition[];
+  plan: {
+    /** Everything one person eats over the plan. */
+    per_person: NutritionTotals;
+    /** Across every serving cooked (each recipe's per-serving figures × its servings). */
+    all_servings: NutritionTotals;
+    daily_average_per_person: NutritionTotals | null;
+  };
+  recipes: RecipeNutrition[];
+  /** Recipes without any nutrition figures. */
+  missing_nutrition_recipe_ids: number[];
+  targets: NutritionTargets | null;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function emptyTotals(): NutritionTotals {
+  return { calories: 0, protein: 0, carbs: 0, fat: 0 };
+}
+
+function roundTotals(totals: NutritionTotals): NutritionTotals {
+  return {
+    calories: Math.round(totals.calories),
+    protein: round1(totals.protein),
+    carbs: round1(totals.carbs),
+    fat: round1(totals.fat),
+  };
+}
+
+function compare(actual: number, target: number): NutrientComparison {
+  const status =
+    actual < target * (1 - NUTRITION_TARGET_TOLERANCE)
+      ? 'short'
+      : actual > target * (1 + NUTRITION_TARGET_TOLERANCE)
+        ? 'over'
+        : 'on_target';
+  return { target, actual, difference: round1(actual - target), status };
+}
+
+/** Per-day, per-plan and per-recipe nutrition, with each day compared against the targets if given. */
+export function summarizeMealPlanNutrition(plan: StoredMealPlan, targets: NutritionTargets | null): MealPlanNutrition {
+  const days = new Map<string, { slots: string[]; count: number; totals: NutritionTotals; complete: boolean }>();
+  const perPerson = emptyTotals();
+  const allServings = emptyTotals();
+  const recipes: RecipeNutrition[] = [];
+  const missing: number[] = [];
+
+  // Recipes come in week order, so days are too.
+  for (const recipe of plan.recipes) {
+    const servings = recipe.servings ?? plan.servings ?? 1;
+    const day = days.get(recipe.day_of_week) ?? { slots: [], count: 0, totals: emptyTotals(), complete: true };
+    const perServing: Partial<NutritionTotals> = {};
+    const total: Partial<NutritionTotals> = {};
+
+    for (const nutrient of NUTRIENTS) {
+      const value = recipe[nutrient];
+      if (value == null) continue;
+      perServing[nutrient] = value;
+      total[nutrient] = round1(value * servings);
+      day.totals[nutrient] += value;
+      perPerson[nutrient] += value;
+      allServings[nutrient] += value * servings;
+    }
+    if (Object.keys(perServing).length === 0) missing.push(recipe.id);
+    if (Object.keys(perServing).length < NUTRIENTS.length) day.complete = false;
+
+    if (!day.slots.includes(recipe.meal_slot)) day.slots.push(recipe.meal_slot);
+    day.count++;
+    days.set(recipe.day_of_week, day);
+    recipes.push({
+      recipe_id: recipe.id,
+      day_of_week: recipe.day_of_week,
+      meal_slot: recipe.meal_slot,
+      title: recipe.title,
+      servings,
+      per_serving: perServing,
+      total,
+    });
+  }
+
+  const dayList: DayNutrition[] = [...days].map(([dayOfWeek, day]) => {
+    const totals = roundTotals(day.totals);
+    const summary: DayNutrition = {
+      day_of_week: dayOfWeek,
+      meal_slots: day.slots,
+      recipes_count: day.count,
+      per_person: totals,
+      complete: day.complete,
+    };
+    if (targets) {
+      const comparison: Partial<Record<Nutrient, NutrientComparison>> = {};
+      for (const nutrient of NUTRIENTS) {
+        const target = targets[nutrient];
+        if (target != null) comparison[nutrient] = compare(totals[nutrient], target);
+      }
+      summary.comparison = comparison;
+      summary.short = NUTRIENTS.filter((n) => comparison[n]?.status === 'short');
+      summary.over = NUTRIENTS.filter((n) => comparison[n]?.status === 'over');
+    }
+    return summary;
+  });
+
+  const dailyAverage =
+    dayList.length > 0
+      ? roundTotals({
+          calories: perPerson.calories / dayList.length,
+          protein: perPerson.protein / dayList.length,
+          carbs: perPerson.carbs / dayList.length,
+          fat: perPerson.fat / dayList.length,
+        })
+      : null;
+
+  return {
+    meal_plan_id: plan.id,
+    days: dayList,
+    plan: {
+      per_person: roundTotals(perPerson),
+      all_servings: roundTotals(allServings),
+      daily_average_per_person: dailyAverage,
+    },
+    recipes,
+    missing_nutrition_recipe_ids: missing,
+    targets,
+  };
+}
+
+/**
+ * Validates a PUT /nutrition/targets body. Only nutrients present are updated; null clears a target.
+ * Returns either the update or a list of field errors.
+ */
+export function validateNutritionTargets(
+  body: Record<string, unknown>
+): { update: Partial<NutritionTargets>; errors: string[] } {
+  const update: Partial<NutritionTargets> = {};
+  const errors: string[] = [];
+
+  for (const nutrient of NUTRIENTS) {
+    const value = body[nutrient];
+    if (value === undefined) continue;
+    if (value === null) {
+      update[nutrient] = null;
+    } else if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || value > MAX_TARGET[nutrient]) {
+      errors.push(`${nutrient} must be a number above 0 and at most ${MAX_TARGET[nutrient]}, or null`);
+    } else {
+      update[nutrient] = nutrient === 'calories' ? Math.round(value) : round1(value);
+    }
+  }
+
+  if (errors.length === 0 && Object.keys(update).length === 0) {
+    errors.push(`At least one of ${NUTRIENTS.join(', ')} is required`);
+  }
+  return { update, errors };
+}
+
+interface TargetsRow {
+  calories: number | null;
+  protein: string | null;
+  carbs: string | null;
+  fat: string | null;
+}
+
+function rowToTargets(row: TargetsRow): NutritionTargets {
+  return { calories: row.calories, protein: toNumber(row.protein), carbs: toNumber(row.carbs), fat: toNumber(row.fat) };
+}
+
+/** The user's daily targets, or null when none are set. */
+export async function loadNutritionTargets(client: PoolClient, userId: number): Promise<NutritionTargets | null> {
+  const result = await client.query<TargetsRow>(
+    'SELECT calories, protein, carbs, fat FROM nutrition_targets WHERE user_id = $1',
+    [userId]
+  );
+  const targets = result.rows[0] ? rowToTargets(result.rows[0]) : null;
+  return targets && NUTRIENTS.some((n) => targets[n] != null) ? targets : null;
+}
+
+/** Applies the nutrients present in update, creating the row on first use; returns all targets. */
+export async function updateNutritionTargets(
+  client: PoolClient,
+  userId: number,
+  update: Partial<NutritionTargets>
+): Promise<NutritionTargets> {
+  const columns = NUTRIENTS.filter((n) => update[n] !== undefined);
+  const params: unknown[] = [userId, ...columns.map((n) => update[n])];
+  const result = await client.query<TargetsRow>(
+    `INSERT INTO nutrition_targets (user_id, ${columns.join(', ')})
+     VALUES ($1, ${columns.map((_, i) => `$${i + 2}`).join(', ')})
+     ON CONFLICT (user_id) DO UPDATE SET
+       ${columns.map((n) => `${n} = EXCLUDED.${n}`).join(', ')}, updated_at = CURRENT_TIMESTAMP
+     RETURNING calories, protein, carbs, fat`,
+    params
+  );
+  return rowToTargets(result.rows[0]);
+}
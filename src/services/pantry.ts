@@ -0,0 +1,219 @@
+import type { PoolClient } from 'pg';
+import { toNumber } from './meal-plan-store';
+import { parseIsoDate } from './meal-plan-status';
+import type { PantryStock } from './shopping-list';
+
+/**
+ * Pantry: ingredients a user already has on hand, with optional quantities and expiry dates.
+ * Stock that has not expired is taken off shopping lists and can be offered to Claude to plan around.
+ */
+export interface PantryItem {
+  id: number;
+  ingredient_name: string;
+  /** null means "some, amount unknown"; it then covers whatever a recipe needs. */
+  quantity: number | null;
+  unit: string | null;
+  category: string | null;
+  /** YYYY-MM-DD */
+  expiry_date: string | null;
+  /** Days from today until expiry_date (negative once expired); null without an expiry date. */
+  days_until_expiry: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type PantryItemInput = Pick<PantryItem, 'ingredient_name' | 'quantity' | 'unit' | 'category' | 'expiry_date'>;
+
+const MAX_NAME_LENGTH = 255;
+const MAX_UNIT_LENGTH = 50;
+const MAX_CATEGORY_LENGTH = 100;
+const MAX_QUANTITY = 1_000_000;
+/** Items expiring within this many days are flagged for Claude to use first. */
+export const PANTRY_USE_FIRST_DAYS = 3;
+const MAX_PROMPT_ITEMS = 50;
+
+function optionalString(value: unknown, maxLength: number): string | null | undefined {
+  if (value == null || (typeof value === 'string' && !value.trim())) return null;
+  if (typeof value !== 'string' || value.trim().length > maxLength) return undefined;
+  return value.trim();
+}
+
+/**
+ * Validates a POST /pantry body, or a PATCH body when partial is set (only fields present are updated).
+ * Returns either the fields or a list of field errors.
+ */
+export function validatePantryItem(
+  body: Record<string, unknown>,
+  opts: { partial: boolean }
+): { item: Partial<PantryItemInput>; errors: string[] } {
+  const item: Partial<PantryItemInput> = {};
+  const errors: string[] = [];
+
+  if (body.ingredient_name !== undefined || !opts.partial) {
+    const name = optionalString(body.ingredient_name, MAX_NAME_LENGTH);
+    if (!name) {
+      errors.push(`ingredient_name is required (max ${MAX_NAME_LENGTH} characters)`);
+    } else {
+      item.ingredient_name = name;
+    }
+  }
+
+  if (body.quantity !== undefined) {
+    const quantity = body.quantity;
+    if (quantity === null) {
+      item.quantity = null;
+    } else if (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity < 0 || quantity > MAX_QUANTITY) {
+      errors.push(`quantity must be a number between 0 and ${MAX_QUANTITY}, or null`);
+    } else {
+      item.quantity = quantity;
+    }
+  } else if (!opts.partial) {
+    item.quantity = null;
+  }
+
+  for (const [field, maxLength] of [
+    ['unit', MAX_UNIT_LENGTH],
+    ['category', MAX_CATEGORY_LENGTH],
+  ] as const) {
+    if (body[field] === undefined) {
+      if (!opts.partial) item[field] = null;
+      continue;
+    }
+    const value = optionalString(body[field], maxLength);
+    if (value === undefined) {
+      errors.push(`${field} must be a string of at most ${maxLength} characters, or null`);
+    } else {
+      item[field] = value;
+    }
+  }
+
+  if (body.expiry_date !== undefined) {
+    const expiry = body.expiry_date;
+    if (expiry === null) {
+      item.expiry_date = null;
+    } else if (parseIsoDate(expiry) == null) {
+      errors.push('expiry_date must be a date in YYYY-MM-DD format, or null');
+    } else {
+      item.expiry_date = expiry as string;
+    }
+  } else if (!opts.partial) {
+    item.expiry_date = null;
+  }
+
+  if (opts.partial && errors.length === 0 && Object.keys(item).length === 0) {
+    errors.push('At least one of ingredient_name, quantity, unit, category, expiry_date is required');
+  }
+
+  return { item, errors };
+}
+
+const PANTRY_COLUMNS = `id, ingredient_name, quantity, unit, category,
+  to_char(expiry_date, 'YYYY-MM-DD') AS expiry_date, (expiry_date - CURRENT_DATE) AS days_until_expiry,
+  created_at, updated_at`;
+
+interface PantryRow {
+  id: number;
+  ingredient_name: string;
+  quantity: string | null;
+  unit: string | null;
+  category: string | null;
+  expiry_date: string | null;
+  days_until_expiry: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+function rowToPantryItem(row: PantryRow): PantryItem {
+  return {
+    id: row.id,
+    ingredient_name: row.ingredient_name,
+    quantity: toNumber(row.quantity),
+    unit: row.unit,
+    category: row.category,
+    expiry_date: row.expiry_date,
+    days_until_expiry: row.days_until_expiry,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/** The user's pantry, soonest expiry first; expiringWithinDays limits it to items expiring by then. */
+export async function listPantryItems(
+  client: PoolClient,
+  userId: number,
+  opts: { expiringWithinDays?: number } = {}
+): Promise<PantryItem[]> {
+  const params: unknown[] = [userId];
+  let where = 'user_id = $1';
+  if (opts.expiringWithinDays !== undefined) {
+    params.push(opts.expiringWithinDays);
+    where += ` AND expiry_date IS NOT NULL AND expiry_date <= CURRENT_DATE + $${params.length}::int`;
+  }
+  const result = await client.query<PantryRow>(
+    `SELECT ${PANTRY_COLUMNS} FROM pantry_items
+     WHERE ${where}
+     ORDER BY expiry_date ASC NULLS LAST, ingredient_name, id`,
+    params
+  );
+  return result.rows.map(rowToPantryItem);
+}
+
+/** Stock that can be used: everything that has not passed its expiry date. */
+export async function loadUsablePantryStock(client: PoolClient, userId: number): Promise<PantryStock[]> {
+  const items = await listPantryItems(client, userId);
+  return items.filter((i) => i.days_until_expiry == null || i.days_until_expiry >= 0);
+}
+
+export async function insertPantryItem(client: PoolClient, userId: number, item: PantryItemInput): Promise<PantryItem> {
+  const result = await client.query<PantryRow>(
+    `INSERT INTO pantry_items (user_id, ingredient_name, quantity, unit, category, expiry_date)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING ${PANTRY_COLUMNS}`,
+    [userId, item.ingredient_name, item.quantity, item.unit, item.category, item.expiry_date]
+  );
+  return rowToPantryItem(result.rows[0]);
+}
+
+/** Applies the fields present in update; null if the item does not exist or belongs to someone else. */
+export async function updatePantryItem(
+  client: PoolClient,
+  userId: number,
+  itemId: number,
+  update: Partial<PantryItemInput>
+): Promise<PantryItem | null> {
+  const sets: string[] = [];
+  const params: unknown[] = [];
+  for (const field of ['ingredient_name', 'quantity', 'unit', 'category', 'expiry_date'] as const) {
+    if (update[field] !== undefined) {
+      params.push(update[field]);
+      sets.push(`${field} = $${params.length}`);
+    }
+  }
+
+  params.push(itemId, userId);
+  const result = await client.query<PantryRow>(
+    `UPDATE pantry_items SET ${sets.join(', ')}, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $${params.length - 1} AND user_id = $${params.length}
+     RETURNING ${PANTRY_COLUMNS}`,
+    params
+  );
+  return result.rows[0] ? rowToPantryItem(result.rows[0]) : null;
+}
+
+/** Pantry section appended to the system prompt when the user asks Claude to plan around their cupboard. */
+export function buildPantryPromptSection(items: PantryItem[]): string {
+  const usable = items.filter((i) => i.days_until_expiry == null || i.days_until_expiry >= 0).slice(0, MAX_PROMPT_ITEMS);
+  if (usable.length === 0) return 'Pantry: empty. Plan as normal.';
+  const lines = usable.map((i) => {
+    const amount = i.quantity != null ? `: ${i.quantity}${i.unit ? ` ${i.unit}` : ''}` : '';
+    const useFirst =
+      i.days_until_expiry != null && i.days_until_expiry <= PANTRY_USE_FIRST_DAYS
+        ? ` (expires ${i.days_until_expiry === 0 ? 'today' : `in ${i.days_until_expiry} day(s)`}; USE FIRST)`
+        : '';
+    return `- ${i.ingredient_name}${amount}${useFirst}`;
+  });
+  return [
+    'Pantry (the user already has these; build meals around them where sensible, use items marked USE FIRST before they expire, and leave their cost out of estimated_cost):',
+    ...lines,
+  ].join('\n');
+}
@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import type { PoolClient } from 'pg';
+import { config } from '../config';
+import type { MailMessage } from '../mail';
+
+/**
+ * Password reset tokens. Only a hash is stored; a token works once and expires after
+ * PASSWORD_RESET_TTL_MINUTES. Requesting a new token cancels any earlier unused ones.
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Creates a reset token for the user and returns it (the only time it is available in clear). Run inside
+ * the caller's transaction: the user row is locked so concurrent requests cannot both leave a live token.
+ */
+export async function createPasswordResetToken(client: PoolClient, userId: number, requestedIp: string | null): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await client.query('SELECT 1 FROM users WHERE id = $1 FOR UPDATE', [userId]);
+  await client.query('UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND used_at IS NULL', [
+    userId,
+  ]);
+  await client.query(
+    `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at, requested_ip)
+     VALUES ($1, $2, CURRENT_TIMESTAMP + make_interval(mins => $3::int), $4)`,
+    [userId, hashToken(token), config.PASSWORD_RESET_TTL_MINUTES, requestedIp?.slice(0, 64) ?? null]
+  );
+  return token;
+}
+
+/**
+ * Marks the token used and returns its user, or null if it is unknown, used or expired. Run inside the
+ * caller's transaction so the password change and the token use commit together.
+ */
+export async function consumePasswordResetToken(client: PoolClient, token: string): Promise<number | null> {
+  const result = await client.query<{ user_id: number }>(
+    `UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP
+     WHERE token_hash = $1 AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+     RETURNING user_id`,
+    [hashToken(token)]
+  );
+  return result.rows[0]?.user_id ?? null;
+}
+
+export function passwordResetEmail(to: string, token: string): MailMessage {
+  const link = `${config.APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+  return {
+    to,
+    subject: 'Reset your My Food SORTED password',
+    text: `Someone asked to reset the password for this account. To choose a new password, open:
+
+${link}
+
+The link works once and expires in ${config.PASSWORD_RESET_TTL_MINUTES} minutes. If you did not ask for this, ignore this email; your password has not changed.`,
+  };
+}
+
+export function emailChangedEmail(to: string, newEmail: string): MailMessage {
+  return {
+    to,
+    subject: 'Your My Food SORTED email address was changed',
+    text: `The email address for your account was changed to ${newEmail}. This address will no longer receive account emails.
+
+If you did not make this change, reset your password and contact support.`,
+  };
+}
@@ -0,0 +1,240 @@
+import type { StoredMealPlan, StoredRecipe } from './meal-plan-store';
+import type { StoredShoppingList } from './shopping-list-store';
+
+/**
+ * Meal plan and shopping list exports: plans as schema.org Recipe JSON-LD (an ItemList of Recipes),
+ * Markdown or a self-contained printable HTML page; shopping lists as CSV or plain text. Costs are GBP.
+ */
+export const MEAL_PLAN_EXPORT_FORMATS = ['jsonld', 'markdown', 'html'] as const;
+export type MealPlanExportFormat = (typeof MEAL_PLAN_EXPORT_FORMATS)[number];
+
+export const SHOPPING_LIST_EXPORT_FORMATS = ['csv', 'text'] as const;
+export type ShoppingListExportFormat = (typeof SHOPPING_LIST_EXPORT_FORMATS)[number];
+
+function money(value: number): string {
+  return `£${value.toFixed(2)}`;
+}
+
+/** "PT1H15M" for 75 minutes. */
+function isoDuration(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `PT${h > 0 ? `${h}H` : ''}${m > 0 || h === 0 ? `${m}M` : ''}`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/** "200 g red lentils"; quantity and unit are left out when missing. */
+export function formatIngredientLine(ing: { ingredient_name: string; quantity: number | null; unit: string | null }): string {
+  return [ing.quantity, ing.unit, ing.ingredient_name].filter((part) => part != null && part !== '').join(' ');
+}
+
+/** Instructions split into steps: one per line, with any "1." / "Step 1:" numbering removed. */
+function instructionSteps(instructions: string | null): string[] {
+  return (instructions ?? '')
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*(?:step\s*)?\d+[.):]\s*/i, '').trim())
+    .filter(Boolean);
+}
+
+function recipeServings(plan: StoredMealPlan, recipe: StoredRecipe): number {
+  return recipe.servings ?? plan.servings ?? 1;
+}
+
+/** "Serves 2 · Prep 10 min · Cook 25 min · £3.20 · 450 kcal, 20 g protein, 60 g carbs, 8 g fat per serving" */
+function recipeFacts(plan: StoredMealPlan, recipe: StoredRecipe): string[] {
+  const facts: string[] = [`Serves ${recipeServings(plan, recipe)}`];
+  if (recipe.prep_time != null) facts.push(`Prep ${recipe.prep_time} min`);
+  if (recipe.cook_time != null) facts.push(`Cook ${recipe.cook_time} min`);
+  if (recipe.estimated_cost != null) facts.push(money(recipe.estimated_cost));
+  const nutrition = [
+    recipe.calories != null ? `${recipe.calories} kcal` : null,
+    recipe.protein != null ? `${recipe.protein} g protein` : null,
+    recipe.carbs != null ? `${recipe.carbs} g carbs` : null,
+    recipe.fat != null ? `${recipe.fat} g fat` : null,
+  ].filter((n): n is string => n != null);
+  if (nutrition.length > 0) facts.push(`${nutrition.join(', ')} per serving`);
+  return facts;
+}
+
+/** Recipes grouped by day, in plan order. */
+function recipesByDay(plan: StoredMealPlan): [string, StoredRecipe[]][] {
+  const days = new Map<string, StoredRecipe[]>();
+  for (const recipe of plan.recipes) {
+    days.set(recipe.day_of_week, [...(days.get(recipe.day_of_week) ?? []), recipe]);
+  }
+  return [...days];
+}
+
+function planHeading(plan: StoredMealPlan): string {
+  return plan.plan_name || `Meal plan ${plan.id}`;
+}
+
+function planSummary(plan: StoredMealPlan): string {
+  return [
+    plan.week_start_date ? `Week of ${plan.week_start_date}` : null,
+    plan.servings != null ? `Serves ${plan.servings}` : null,
+    plan.total_estimated_cost != null ? `Estimated cost ${money(plan.total_estimated_cost)}` : null,
+  ]
+    .filter((part): part is string => part != null)
+    .join(' · ');
+}
+
+/** A schema.org Recipe node for one plan recipe. */
+export function recipeToJsonLd(plan: StoredMealPlan, recipe: StoredRecipe): Record<string, unknown> {
+  const servings = recipeServings(plan, recipe);
+  const nutrition: Record<string, string> = {};
+  if (recipe.calories != null) nutrition.calories = `${recipe.calories} calories`;
+  if (recipe.protein != null) nutrition.proteinContent = `${recipe.protein} g`;
+  if (recipe.carbs != null) nutrition.carbohydrateContent = `${recipe.carbs} g`;
+  if (recipe.fat != null) nutrition.fatContent = `${recipe.fat} g`;
+  const steps = instructionSteps(recipe.instructions);
+
+  return {
+    '@type': 'Recipe',
+    name: recipe.title,
+    recipeCategory: capitalize(recipe.meal_slot),
+    recipeYield: `${servings} servings`,
+    ...(recipe.prep_time != null && { prepTime: isoDuration(recipe.prep_time) }),
+    ...(recipe.cook_time != null && { cookTime: isoDuration(recipe.cook_time) }),
+    ...((recipe.prep_time != null || recipe.cook_time != null) && {
+      totalTime: isoDuration((recipe.prep_time ?? 0) + (recipe.cook_time ?? 0)),
+    }),
+    recipeIngredient: recipe.ingredients.map(formatIngredientLine),
+    recipeInstructions: steps.map((text) => ({ '@type': 'HowToStep', text })),
+    ...(Object.keys(nutrition).length > 0 && {
+      nutrition: { '@type': 'NutritionInformation', servingSize: '1 serving', ...nutrition },
+    }),
+    ...(recipe.estimated_cost != null && {
+      estimatedCost: { '@type': 'MonetaryAmount', currency: 'GBP', value: recipe.estimated_cost },
+    }),
+  };
+}
+
+/** The plan as an ItemList of Recipes; day and slot go in each item's name ("Monday dinner"). */
+export function mealPlanToJsonLd(plan: StoredMealPlan): Record<string, unknown> {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'ItemList',
+    name: planHeading(plan),
+    numberOfItems: plan.recipes.length,
+    itemListElement: plan.recipes.map((recipe, i) => ({
+      '@type': 'ListItem',
+      position: i + 1,
+      name: `${recipe.day_of_week} ${recipe.meal_slot}`,
+      item: recipeToJsonLd(plan, recipe),
+    })),
+  };
+}
+
+export function mealPlanToMarkdown(plan: StoredMealPlan): string {
+  const lines = [`# ${planHeading(plan)}`, ''];
+  const summary = planSummary(plan);
+  if (summary) lines.push(summary, '');
+
+  for (const [day, recipes] of recipesByDay(plan)) {
+    lines.push(`## ${day}`, '');
+    for (const recipe of recipes) {
+      lines.push(`### ${capitalize(recipe.meal_slot)}: ${recipe.title}`, '', `_${recipeFacts(plan, recipe).join(' · ')}_`, '');
+      lines.push('**Ingredients**', '', ...recipe.ingredients.map((ing) => `- ${formatIngredientLine(ing)}`), '');
+      const steps = instructionSteps(recipe.instructions);
+      if (steps.length > 0) lines.push('**Method**', '', ...steps.map((step, i) => `${i + 1}. ${step}`), '');
+    }
+  }
+  return lines.join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+const PRINT_STYLES = `body { font-family: Georgia, serif; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; color: #222; line-height: 1.45; }
+h1 { margin-bottom: 0.25rem; }
+h2 { border-bottom: 1px solid #ccc; padding-bottom: 0.2rem; margin-top: 2rem; }
+.summary, .facts { color: #555; font-style: italic; }
+.recipe { break-inside: avoid; margin-bottom: 1.5rem; }
+@media print { body { margin: 0; max-width: none; } h2 { break-after: avoid; } }`;
+
+/** A standalone HTML page laid out for printing; the JSON-LD is embedded so the page is also machine-readable. */
+export function mealPlanToHtml(plan: StoredMealPlan): string {
+  const heading = escapeHtml(planHeading(plan));
+  const summary = planSummary(plan);
+  const body: string[] = [`<h1>${heading}</h1>`];
+  if (summary) body.push(`<p class="summary">${escapeHtml(summary)}</p>`);
+
+  for (const [day, recipes] of recipesByDay(plan)) {
+    body.push(`<h2>${escapeHtml(day)}</h2>`);
+    for (const recipe of recipes) {
+      const steps = instructionSteps(recipe.instructions);
+      body.push(
+        '<section class="recipe">',
+        `<h3>${escapeHtml(capitalize(recipe.meal_slot))}: ${escapeHtml(recipe.title)}</h3>`,
+        `<p class="facts">${escapeHtml(recipeFacts(plan, recipe).join(' · '))}</p>`,
+        '<h4>Ingredients</h4>',
+        `<ul>${recipe.ingredients.map((ing) => `<li>${escapeHtml(formatIngredientLine(ing))}</li>`).join('')}</ul>`,
+        ...(steps.length > 0 ? ['<h4>Method</h4>', `<ol>${steps.map((s) => `<li>${escapeHtml(s)}</li>`).join('')}</ol>`] : []),
+        '</section>'
+      );
+    }
+  }
+
+  // "<" is escaped so recipe text cannot close the script element.
+  const jsonLd = JSON.stringify(mealPlanToJsonLd(plan)).replace(/</g, '\\u003c');
+  return `<!DOCTYPE html>
+<html lang="en-GB">
+<head>
+<meta charset="utf-8">
+<title>${heading}</title>
+<style>
+${PRINT_STYLES}
+</style>
+<script type="application/ld+json">${jsonLd}</script>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+function csvField(value: string | number | boolean | null): string {
+  if (value == null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per item: category, item, quantity, unit, estimated_price, checked, source. */
+export function shoppingListToCsv(list: StoredShoppingList): string {
+  const rows = [['category', 'item', 'quantity', 'unit', 'estimated_price', 'checked', 'source'].join(',')];
+  for (const item of list.items) {
+    rows.push(
+      [item.category, item.ingredient_name, item.quantity, item.unit, item.estimated_price, item.checked, item.source]
+        .map(csvField)
+        .join(',')
+    );
+  }
+  return rows.join('\r\n') + '\r\n';
+}
+
+/** A checklist grouped by category, with the estimated total at the end. */
+export function shoppingListToText(list: StoredShoppingList): string {
+  const lines = [list.name || (list.meal_plan_id != null ? `Shopping list for meal plan ${list.meal_plan_id}` : 'Shopping list')];
+  if (list.date_from && list.date_to) lines.push(`${list.date_from} to ${list.date_to}`);
+
+  const categories = new Map<string, StoredShoppingList['items']>();
+  for (const item of list.items) {
+    const category = item.category || 'Other';
+    categories.set(category, [...(categories.get(category) ?? []), item]);
+  }
+  for (const [category, items] of categories) {
+    lines.push('', `${category}:`);
+    for (const item of items) {
+      const price = item.estimated_price != null ? ` (${money(item.estimated_price)})` : '';
+      lines.push(`[${item.checked ? 'x' : ' '}] ${formatIngredientLine(item)}${price}`);
+    }
+  }
+  lines.push('', `Estimated total: ${money(list.total_cost)}`);
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,337 @@
+import type { PoolClient } from 'pg';
+import { toNumber } from './meal-plan-store';
+import { cleanSearchTerm } from './retailer-links';
+import { listRetailers, type RetailerDefinition } from './retailers';
+import type { StoredShoppingItem } from './shopping-list-store';
+import { convertAmount, normalizeIngredientName, resolveUnit } from './units';
+
+/**
+ * Retailer price catalogue: products with pack size and shelf price, imported from CSV per retailer.
+ * Shopping list items are matched to products and priced as whole packs ("300 g lentils" costs one
+ * 500 g bag), giving a real cost per retailer instead of Claude's estimated_price guesses.
+ */
+
+export interface CatalogueProductInput {
+  product_name: string;
+  /** Normalised ingredient name the product is matched on; derived from product_name when the CSV has no ingredient column. */
+  match_name: string;
+  pack_size: number;
+  unit: string;
+  price: number;
+}
+
+export interface CatalogueProduct extends CatalogueProductInput {
+  id: number;
+  retailer: string;
+}
+
+export interface PricedItem {
+  shopping_list_item_id: number;
+  ingredient_name: string;
+  quantity: number | null;
+  unit: string | null;
+  /** null when nothing in the catalogue matches or the units can't be converted. */
+  product: Pick<CatalogueProduct, 'id' | 'product_name' | 'pack_size' | 'unit' | 'price'> | null;
+  packs: number | null;
+  cost: number | null;
+}
+
+export interface RetailerQuote {
+  retailer: string;
+  display_name: string;
+  /** Sum of pack-rounded costs of the matched items. */
+  total_cost: number;
+  matched_items: number;
+  unmatched_items: number;
+  items: PricedItem[];
+}
+
+const REQUIRED_COLUMNS = ['product_name', 'pack_size', 'unit', 'price'] as const;
+const MAX_NAME_LENGTH = 255;
+const MAX_UNIT_LENGTH = 50;
+const MAX_PACK_SIZE = 1_000_000;
+const MAX_PRICE = 100_000;
+const MAX_ROWS = 50_000;
+
+/** Splits CSV text into rows of fields (RFC 4180: quoted fields, doubled quotes, CRLF or LF). */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim() !== ''));
+}
+
+/** Words in product names that say nothing about what the product is: brands, ranges, packaging. */
+const PRODUCT_FILLER_WORDS = new Set([
+  'organic',
+  'british',
+  'essential',
+  'finest',
+  'value',
+  'everyday',
+  'basic',
+  'pack',
+  'multipack',
+  'loose',
+  'tin',
+  'can',
+  'jar',
+  'bag',
+  'bunch',
+  'punnet',
+  'bottle',
+  'carton',
+  'pot',
+  'box',
+  'fillet',
+]);
+
+/** Pack-size words in product names ("2 Pints", "500g", "6 x"): any unit that measures an amount. */
+function isUnitWord(word: string): boolean {
+  const unit = resolveUnit(word);
+  return unit.dimension !== 'count' || unit.countUnit === null;
+}
+
+/** Retailer ids and names, so "Tesco Red Lentils" matches "red lentils". */
+function retailerWords(): Set<string> {
+  return new Set(
+    listRetailers().flatMap((r) => [r.id, r.display_name].flatMap((s) => normalizeIngredientName(s).split(' ')))
+  );
+}
+
+/**
+ * Canonical match tokens for an ingredient or product name: search-term cleaning (no preparation or
+ * size words), hyphenated words split ("semi-skimmed" → semi skimmed), each word normalised and
+ * singularised, single letters and filler words dropped.
+ */
+function matchTokens(name: string, filler: ReadonlySet<string> = new Set()): string[] {
+  return cleanSearchTerm(name)
+    .split(/[\s-]+/)
+    .flatMap((word) => normalizeIngredientName(word).split(/[\s-]+/))
+    .filter((word) => word.length > 1 && !/^\d/.test(word) && !filler.has(word));
+}
+
+/** Match tokens for a product name, which also drops its pack size ("Semi Skimmed Milk 2 Pints" → semi skimmed milk). */
+function productMatchTokens(productName: string, filler: ReadonlySet<string>): string[] {
+  return matchTokens(productName, filler).filter((word) => !isUnitWord(word));
+}
+
+/**
+ * Parses a price catalogue CSV. The header row must name product_name, pack_size, unit and price
+ * (any order, extra columns ignored); an optional ingredient column sets what the product matches
+ * ("Tesco Everyday Essentials Onions 3 Pack" → onion). Prices may carry a £ sign.
+ */
+export function parsePriceCsv(text: string): { products: CatalogueProductInput[]; errors: string[] } {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const products: CatalogueProductInput[] = [];
+  const errors: string[] = [];
+  if (rows.length === 0) return { products, errors: ['CSV is empty'] };
+
+  const header = rows[0].map((h) => h.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((c) => !header.includes(c));
+  if (missing.length > 0) return { products, errors: [`Missing column(s): ${missing.join(', ')}`] };
+  if (rows.length - 1 > MAX_ROWS) return { products, errors: [`At most ${MAX_ROWS} products per import`] };
+  const col = (row: string[], name: string) => (row[header.indexOf(name)] ?? '').trim();
+
+  const filler = new Set([...PRODUCT_FILLER_WORDS, ...retailerWords()]);
+  rows.slice(1).forEach((row, i) => {
+    const line = `line ${i + 2}`;
+    const productName = col(row, 'product_name');
+    const unit = col(row, 'unit').toLowerCase();
+    const packSize = Number(col(row, 'pack_size'));
+    const price = Number(col(row, 'price').replace(/^£/, ''));
+    const ingredient = header.includes('ingredient') ? col(row, 'ingredient') : '';
+
+    const rowErrors: string[] = [];
+    if (!productName || productName.length > MAX_NAME_LENGTH) rowErrors.push(`product_name is required (max ${MAX_NAME_LENGTH} characters)`);
+    if (!col(row, 'pack_size') || !Number.isFinite(packSize) || packSize <= 0 || packSize > MAX_PACK_SIZE) {
+      rowErrors.push(`pack_size must be a number above 0 and at most ${MAX_PACK_SIZE}`);
+    }
+    if (!unit || unit.length > MAX_UNIT_LENGTH) rowErrors.push(`unit is required (max ${MAX_UNIT_LENGTH} characters; use "each" for items)`);
+    if (!col(row, 'price') || !Number.isFinite(price) || price < 0 || price > MAX_PRICE) {
+      rowErrors.push(`price must be a number between 0 and ${MAX_PRICE}`);
+    }
+    const matchName = (ingredient ? matchTokens(ingredient) : productMatchTokens(productName, filler)).join(' ');
+    if (productName && !matchName) rowErrors.push('product_name has no words to match on; add an ingredient column');
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors.map((e) => `${line}: ${e}`));
+    } else {
+      products.push({ product_name: productName, match_name: matchName.slice(0, MAX_NAME_LENGTH), pack_size: packSize, unit, price });
+    }
+  });
+  return { products, errors };
+}
+
+/** Replaces a retailer's whole catalogue with products; returns how many were stored. Caller owns the transaction. */
+export async function replaceRetailerCatalogue(
+  client: PoolClient,
+  retailerId: string,
+  products: CatalogueProductInput[]
+): Promise<number> {
+  await client.query('DELETE FROM retailer_products WHERE retailer = $1', [retailerId]);
+  if (products.length === 0) return 0;
+  const result = await client.query(
+    `INSERT INTO retailer_products (retailer, product_name, match_name, pack_size, unit, price)
+     SELECT $1, * FROM unnest($2::varchar[], $3::varchar[], $4::numeric[], $5::varchar[], $6::numeric[])`,
+    [
+      retailerId,
+      products.map((p) => p.product_name),
+      products.map((p) => p.match_name),
+      products.map((p) => p.pack_size),
+      products.map((p) => p.unit),
+      products.map((p) => p.price),
+    ]
+  );
+  return result.rowCount ?? 0;
+}
+
+/** Which of the given retailers have any products in the catalogue. */
+export async function retailersWithCatalogue(client: PoolClient, retailerIds: string[]): Promise<Set<string>> {
+  const result = await client.query<{ retailer: string }>(
+    'SELECT DISTINCT retailer FROM retailer_products WHERE retailer = ANY($1::varchar[])',
+    [retailerIds]
+  );
+  return new Set(result.rows.map((r) => r.retailer));
+}
+
+/**
+ * Loads the products that could match any of the items, i.e. whose last match word is the last
+ * word of an item's name (the noun: "red lentil" can match "split red lentil", never "lentil soup").
+ */
+export async function loadCatalogueCandidates(
+  client: PoolClient,
+  retailerIds: string[],
+  items: Pick<StoredShoppingItem, 'ingredient_name'>[]
+): Promise<CatalogueProduct[]> {
+  const heads = [
+    ...new Set(
+      items.map((i) => matchTokens(i.ingredient_name)).filter((t) => t.length > 0).map((t) => t[t.length - 1])
+    ),
+  ];
+  if (heads.length === 0 || retailerIds.length === 0) return [];
+  const result = await client.query<
+    Omit<CatalogueProduct, 'pack_size' | 'price'> & { pack_size: string; price: string }
+  >(
+    `SELECT id, retailer, product_name, match_name, pack_size, unit, price
+     FROM retailer_products
+     WHERE retailer = ANY($1::varchar[]) AND regexp_replace(match_name, '^.* ', '') = ANY($2::varchar[])`,
+    [retailerIds, heads]
+  );
+  return result.rows.map((r) => ({ ...r, pack_size: toNumber(r.pack_size) ?? 0, price: toNumber(r.price) ?? 0 }));
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Prices one item from a retailer's products. An exact name match beats a more specific product
+ * ("split red lentil" for "red lentil"), which beats a more generic one ("pasta" for "penne pasta");
+ * the nouns must agree, and among equally good matches the cheapest pack-rounded cost wins.
+ * Items without a quantity are priced as one pack.
+ */
+function priceItem(item: StoredShoppingItem, products: CatalogueProduct[]): PricedItem {
+  const tokens = matchTokens(item.ingredient_name);
+  const name = tokens.join(' ');
+  const unmatched: PricedItem = {
+    shopping_list_item_id: item.id,
+    ingredient_name: item.ingredient_name,
+    quantity: item.quantity,
+    unit: item.unit,
+    product: null,
+    packs: null,
+    cost: null,
+  };
+  if (tokens.length === 0) return unmatched;
+
+  let best: { tier: number; packs: number; cost: number; product: CatalogueProduct } | null = null;
+  for (const product of products) {
+    const productTokens = product.match_name.split(' ');
+    const tier =
+      product.match_name === name
+        ? 0
+        : tokens.every((t) => productTokens.includes(t))
+          ? 1
+          : productTokens.every((t) => tokens.includes(t))
+            ? 2
+            : null;
+    if (tier == null || productTokens[productTokens.length - 1] !== tokens[tokens.length - 1]) continue;
+
+    let packs = 1;
+    if (item.quantity != null) {
+      const needed = convertAmount(item.quantity, item.unit, product.unit, normalizeIngredientName(name));
+      if (needed == null) continue;
+      // Tolerance so 0.5 kg of a 500 g pack stays one pack despite floating point.
+      packs = Math.max(1, Math.ceil(needed / product.pack_size - 1e-6));
+    }
+    const cost = roundMoney(packs * product.price);
+    if (!best || tier < best.tier || (tier === best.tier && cost < best.cost)) {
+      best = { tier, packs, cost, product };
+    }
+  }
+  if (!best) return unmatched;
+
+  const { id, product_name, pack_size, unit, price } = best.product;
+  return { ...unmatched, product: { id, product_name, pack_size, unit, price }, packs: best.packs, cost: best.cost };
+}
+
+/** Prices every item on a list at one retailer, given candidates from loadCatalogueCandidates. */
+export function quoteShoppingList(
+  items: StoredShoppingItem[],
+  retailer: RetailerDefinition,
+  products: CatalogueProduct[]
+): RetailerQuote {
+  const own = products.filter((p) => p.retailer === retailer.id);
+  const priced = items.map((item) => priceItem(item, own));
+  const matched = priced.filter((p) => p.cost != null);
+  return {
+    retailer: retailer.id,
+    display_name: retailer.display_name,
+    total_cost: roundMoney(matched.reduce((sum, p) => sum + p.cost!, 0)),
+    matched_items: matched.length,
+    unmatched_items: priced.length - matched.length,
+    items: priced,
+  };
+}
+
+/**
+ * Orders quotes best first and picks the cheapest retailer. Only retailers that price as many items
+ * as the best-covered one compete on total, so one missing half the list can't win by omission.
+ */
+export function rankQuotes(quotes: RetailerQuote[]): { quotes: RetailerQuote[]; cheapest_retailer: string | null } {
+  const ranked = [...quotes].sort((a, b) => b.matched_items - a.matched_items || a.total_cost - b.total_cost);
+  const cheapest = ranked[0] && ranked[0].matched_items > 0 ? ranked[0].retailer : null;
+  return { quotes: ranked, cheapest_retailer: cheapest };
+}
@@ -0,0 +1,175 @@
+import type { PoolClient } from 'pg';
+
+/**
+ * User profile: dietary preferences, allergies, household size and weekly budget.
+ * Lists are stored comma-separated in the TEXT columns on users.
+ */
+export interface UserProfile {
+  email: string;
+  dietary_preferences: string[];
+  allergies: string[];
+  household_size: number;
+  default_budget: number | null;
+}
+
+export type ProfileUpdate = Partial<Omit<UserProfile, 'email'>>;
+
+const MAX_LIST_ITEMS = 20;
+const MAX_LIST_ITEM_LENGTH = 50;
+const MAX_HOUSEHOLD_SIZE = 20;
+const MAX_BUDGET = 10000;
+
+function parseList(value: string | null): string[] {
+  if (value == null) return [];
+  return value
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function serializeList(items: string[]): string | null {
+  return items.length > 0 ? items.join(',') : null;
+}
+
+/** Accepts an array of strings or a comma-separated string; returns null if invalid. */
+function normalizeList(value: unknown): string[] | null {
+  const raw = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(raw)) return null;
+  const items: string[] = [];
+  for (const item of raw) {
+    if (typeof item !== 'string') return null;
+    const trimmed = item.trim().toLowerCase();
+    if (!trimmed) continue;
+    if (trimmed.length > MAX_LIST_ITEM_LENGTH || trimmed.includes(',')) return null;
+    if (!items.includes(trimmed)) items.push(trimmed);
+  }
+  return items.length <= MAX_LIST_ITEMS ? items : null;
+}
+
+/**
+ * Validates a PUT /profile body. Only fields present in the body are updated.
+ * Returns either the update or a list of field errors.
+ */
+export function validateProfileUpdate(
+  body: Record<string, unknown>
+): { update: ProfileUpdate; errors: string[] } {
+  const update: ProfileUpdate = {};
+  const errors: string[] = [];
+
+  if (body.dietary_preferences !== undefined) {
+    const list = body.dietary_preferences === null ? [] : normalizeList(body.dietary_preferences);
+    if (list == null) {
+      errors.push(`dietary_preferences must be an array of up to ${MAX_LIST_ITEMS} strings (max ${MAX_LIST_ITEM_LENGTH} characters each, no commas)`);
+    } else {
+      update.dietary_preferences = list;
+    }
+  }
+
+  if (body.allergies !== undefined) {
+    const list = body.allergies === null ? [] : normalizeList(body.allergies);
+    if (list == null) {
+      errors.push(`allergies must be an array of up to ${MAX_LIST_ITEMS} strings (max ${MAX_LIST_ITEM_LENGTH} characters each, no commas)`);
+    } else {
+      update.allergies = list;
+    }
+  }
+
+  if (body.household_size !== undefined) {
+    const size = body.household_size;
+    if (typeof size !== 'number' || !Number.isInteger(size) || size < 1 || size > MAX_HOUSEHOLD_SIZE) {
+      errors.push(`household_size must be an integer between 1 and ${MAX_HOUSEHOLD_SIZE}`);
+    } else {
+      update.household_size = size;
+    }
+  }
+
+  if (body.default_budget !== undefined) {
+    const budget = body.default_budget;
+    if (budget === null) {
+      update.default_budget = null;
+    } else if (typeof budget !== 'number' || !Number.isFinite(budget) || budget < 0 || budget > MAX_BUDGET) {
+      errors.push(`default_budget must be a number between 0 and ${MAX_BUDGET}, or null`);
+    } else {
+      update.default_budget = Math.round(budget * 100) / 100;
+    }
+  }
+
+  if (errors.length === 0 && Object.keys(update).length === 0) {
+    errors.push('At least one of dietary_preferences, allergies, household_size, default_budget is required');
+  }
+
+  return { update, errors };
+}
+
+interface ProfileRow {
+  email: string;
+  dietary_preferences: string | null;
+  allergies: string | null;
+  household_size: number | null;
+  default_budget: string | null;
+}
+
+function rowToProfile(row: ProfileRow): UserProfile {
+  return {
+    email: row.email,
+    dietary_preferences: parseList(row.dietary_preferences),
+    allergies: parseList(row.allergies),
+    household_size: row.household_size ?? 1,
+    default_budget: row.default_budget != null ? parseFloat(row.default_budget) : null,
+  };
+}
+
+export async function loadUserProfile(client: PoolClient, userId: number): Promise<UserProfile | null> {
+  const result = await client.query<ProfileRow>(
+    `SELECT email, dietary_preferences, allergies, household_size, default_budget
+     FROM users WHERE id = $1`,
+    [userId]
+  );
+  return result.rows[0] ? rowToProfile(result.rows[0]) : null;
+}
+
+export async function updateUserProfile(
+  client: PoolClient,
+  userId: number,
+  update: ProfileUpdate
+): Promise<UserProfile | null> {
+  const sets: string[] = [];
+  const params: unknown[] = [];
+
+  if (update.dietary_preferences !== undefined) {
+    params.push(serializeList(update.dietary_preferences));
+    sets.push(`dietary_preferences = $${params.length}`);
+  }
+  if (update.allergies !== undefined) {
+    params.push(serializeList(update.allergies));
+    sets.push(`allergies = $${params.length}`);
+  }
+  if (update.household_size !== undefined) {
+    params.push(update.household_size);
+    sets.push(`household_size = $${params.length}`);
+  }
+  if (update.default_budget !== undefined) {
+    params.push(update.default_budget);
+    sets.push(`default_budget = $${params.length}`);
+  }
+
+  params.push(userId);
+  const result = await client.query<ProfileRow>(
+    `UPDATE users SET ${sets.join(', ')} WHERE id = $${params.length}
+     RETURNING email, dietary_preferences, allergies, household_size, default_budget`,
+    params
+  );
+  return result.rows[0] ? rowToProfile(result.rows[0]) : null;
+}
+
+/** Profile section appended to the system prompt so the model honours it without the user restating it. */
+export function buildProfilePromptSection(profile: UserProfile): string {
+  const lines = [
+    'User profile (always apply unless the user explicitly overrides it in this conversation):',
+    `- Dietary preferences: ${profile.dietary_preferences.length ? profile.dietary_preferences.join(', ') : 'none specified'}`,
+    `- Allergies: ${profile.allergies.length ? `${profile.allergies.join(', ')} (NEVER include these or ingredients containing them)` : 'none specified'}`,
+    `- Household size: ${profile.household_size} (use as the default "servings")`,
+    `- Weekly budget: ${profile.default_budget != null ? `£${profile.default_budget.toFixed(2)} (total estimated_cost of the plan must not exceed this)` : 'not specified'}`,
+  ];
+  return lines.join('\n');
+}
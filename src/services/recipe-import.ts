@@ -0,0 +1,230 @@
+import { MAX_SERVINGS } from './meal-plan';
+import { resolveUnit } from './units';
+
+/**
+ * Import of schema.org Recipe JSON-LD, as published on recipe sites and produced by the meal plan
+ * export. Recipes are converted to the same shape Claude returns, so callers validate them with the
+ * meal plan validators before storing anything.
+ */
+export interface ImportedRecipe {
+  /** Recipe fields ready for validateRecipe / validateRecipeDetails (day and slot are not set). */
+  candidate: Record<string, unknown>;
+  /** Servings from recipeYield, if it gives a usable number. */
+  servings: number | null;
+}
+
+const MAX_IMPORT_RECIPES = 50;
+
+/** Counted units worth recognising in ingredient lines ("2 cloves garlic"); weights and volumes come from units.ts. */
+const COUNT_UNITS = new Set([
+  'clove',
+  'tin',
+  'can',
+  'bunch',
+  'pinch',
+  'handful',
+  'slice',
+  'sprig',
+  'pack',
+  'packet',
+  'jar',
+  'stick',
+  'head',
+  'rasher',
+  'fillet',
+  'sheet',
+  'knob',
+]);
+
+const UNICODE_FRACTIONS: Record<string, number> = { '¼': 0.25, '½': 0.5, '¾': 0.75, '⅓': 1 / 3, '⅔': 2 / 3, '⅛': 0.125 };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isRecipeNode(node: Record<string, unknown>): boolean {
+  const type = node['@type'];
+  return type === 'Recipe' || (Array.isArray(type) && type.includes('Recipe'));
+}
+
+/**
+ * Parses the document given to an import endpoint: a JSON-LD object or array, JSON text, or an HTML page
+ * with <script type="application/ld+json"> blocks. Returns null when nothing parses as JSON.
+ */
+export function parseJsonLdDocument(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    const blocks: unknown[] = [];
+    for (const match of value.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+      try {
+        blocks.push(JSON.parse(match[1]));
+      } catch {
+        // Skip blocks that are not valid JSON; other blocks on the page may still hold the recipe.
+      }
+    }
+    return blocks.length > 0 ? blocks : null;
+  }
+}
+
+/** Every Recipe node in a JSON-LD document: top level, arrays, @graph and ItemList items. */
+export function findJsonLdRecipes(doc: unknown): Record<string, unknown>[] {
+  const recipes: Record<string, unknown>[] = [];
+  const visit = (node: unknown, depth: number) => {
+    if (depth > 5 || recipes.length >= MAX_IMPORT_RECIPES) return;
+    if (Array.isArray(node)) {
+      node.forEach((n) => visit(n, depth + 1));
+      return;
+    }
+    if (!isObject(node)) return;
+    if (isRecipeNode(node)) {
+      recipes.push(node);
+      return;
+    }
+    visit(node['@graph'], depth + 1);
+    visit(node.itemListElement, depth + 1);
+    visit(node.item, depth + 1);
+    visit(node.mainEntity, depth + 1);
+  };
+  visit(doc, 0);
+  return recipes;
+}
+
+function text(value: unknown): string | null {
+  if (typeof value === 'string') return value.trim() || null;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return text(value[0]);
+  if (isObject(value)) return text(value['@value'] ?? value.text ?? value.name);
+  return null;
+}
+
+/** The first number in a value ("450 kcal", "£3.20", 12, { value: 3.2 }); null if there is none. */
+function firstNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (isObject(value)) return firstNumber(value.value ?? value.price);
+  const match = text(value)?.replace(/,/g, '').match(/\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+/** Minutes in an ISO 8601 duration ("PT1H15M", "P0DT0H20M"); null if it isn't one. */
+export function parseIsoDuration(value: unknown): number | null {
+  const match = text(value)?.match(/^P(?:(\d+)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!match || match[0] === 'P' || /T$/i.test(match[0])) return null;
+  const [, d, h, m, s] = match.map((part) => (part === undefined ? 0 : parseFloat(part)));
+  return Math.round(d * 1440 + h * 60 + m + s / 60);
+}
+
+function parseQuantity(token: string): number | null {
+  if (token in UNICODE_FRACTIONS) return UNICODE_FRACTIONS[token];
+  const mixed = token.match(/^(\d+)([¼½¾⅓⅔⅛])$/);
+  if (mixed) return parseInt(mixed[1], 10) + UNICODE_FRACTIONS[mixed[2]];
+  const fraction = token.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return parseInt(fraction[2], 10) > 0 ? parseInt(fraction[1], 10) / parseInt(fraction[2], 10) : null;
+  return /^\d+(?:\.\d+)?$/.test(token) ? parseFloat(token) : null;
+}
+
+function isUnit(word: string): boolean {
+  const resolved = resolveUnit(word);
+  return resolved.dimension !== 'count' || (resolved.countUnit != null && COUNT_UNITS.has(resolved.countUnit));
+}
+
+/**
+ * Splits an ingredient line into quantity, unit and name: "1 1/2 tbsp olive oil", "400g tin chopped
+ * tomatoes", "2 cloves garlic, crushed". Ranges take the lower figure; anything unparsed stays in the name.
+ */
+export function parseIngredientLine(line: string): { ingredient_name: string; quantity: number | null; unit: string | null } {
+  const words = line
+    .trim()
+    .replace(/(\d)\s*-\s*\d+(?:\.\d+)?/, '$1') // "2-3 carrots" → "2 carrots"
+    .replace(/^(\d+(?:\.\d+)?)([a-zA-Z]+)\b/, '$1 $2') // "400g" → "400 g"
+    .split(/\s+/)
+    .filter(Boolean);
+
+  let quantity: number | null = null;
+  while (words.length > 1) {
+    const n = parseQuantity(words[0]);
+    if (n == null) break;
+    quantity = (quantity ?? 0) + n;
+    words.shift();
+  }
+
+  let unit: string | null = null;
+  if (quantity != null && words.length > 1 && isUnit(words[0].replace(/[.,]$/, ''))) {
+    unit = words.shift()!.replace(/[.,]$/, '');
+    if (words.length > 1 && words[0].toLowerCase() === 'of') words.shift();
+  }
+  return {
+    ingredient_name: words.join(' ').slice(0, 255),
+    quantity: quantity != null ? Math.round(quantity * 1000) / 1000 : null,
+    unit,
+  };
+}
+
+/** recipeInstructions as newline-separated steps: text, a list of strings, HowToSteps or HowToSections. */
+function parseInstructions(value: unknown, depth = 0): string[] {
+  if (depth > 3 || value == null) return [];
+  if (typeof value === 'string') return value.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  if (Array.isArray(value)) return value.flatMap((v) => parseInstructions(v, depth + 1));
+  if (!isObject(value)) return [];
+  // HowToSection: its steps, without the section heading.
+  if (value.itemListElement !== undefined) return parseInstructions(value.itemListElement, depth + 1);
+  return parseInstructions(value.text ?? value.name, depth + 1);
+}
+
+/** Servings from recipeYield ("4 servings", "Serves 4", 4, ["4", "4 servings"]). */
+function parseYield(value: unknown): number | null {
+  const n = firstNumber(Array.isArray(value) ? value.find((v) => firstNumber(v) != null) : value);
+  return n != null && Number.isInteger(n) && n >= 1 && n <= MAX_SERVINGS ? n : null;
+}
+
+/**
+ * Converts a Recipe node to recipe fields. Values that can't be read are left out (or null) rather than
+ * guessed, so validation reports what is missing, e.g. a recipe without ingredients.
+ */
+export function jsonLdRecipeToCandidate(node: Record<string, unknown>): ImportedRecipe {
+  const nutrition = isObject(node.nutrition) ? node.nutrition : {};
+  const calories = firstNumber(nutrition.calories);
+  const ingredients = node.recipeIngredient ?? node.ingredients;
+  const steps = parseInstructions(node.recipeInstructions);
+
+  return {
+    candidate: {
+      title: text(node.name),
+      instructions: steps.map((step, i) => `${i + 1}. ${step}`).join('\n'),
+      prep_time: parseIsoDuration(node.prepTime),
+      cook_time: parseIsoDuration(node.cookTime) ?? (node.prepTime == null ? parseIsoDuration(node.totalTime) : null),
+      estimated_cost: firstNumber(node.estimatedCost),
+      calories: calories != null ? Math.round(calories) : null,
+      protein: firstNumber(nutrition.proteinContent),
+      carbs: firstNumber(nutrition.carbohydrateContent),
+      fat: firstNumber(nutrition.fatContent),
+      ingredients: Array.isArray(ingredients)
+        ? ingredients.map((line) =>
+            typeof line === 'string' ? { ...parseIngredientLine(line), category: null, estimated_price: null } : line
+          )
+        : ingredients,
+    },
+    servings: parseYield(node.recipeYield),
+  };
+}
+
+/**
+ * Scales an imported recipe's quantities and cost from the servings it was written for to the target
+ * servings. Ingredients that failed to parse are left for validation to report.
+ */
+export function scaleCandidate(candidate: Record<string, unknown>, from: number, to: number): Record<string, unknown> {
+  if (from === to) return candidate;
+  const factor = to / from;
+  const scale = (value: unknown, places: number) =>
+    typeof value === 'number' ? Math.round(value * factor * 10 ** places) / 10 ** places : value;
+  return {
+    ...candidate,
+    estimated_cost: scale(candidate.estimated_cost, 2),
+    ingredients: Array.isArray(candidate.ingredients)
+      ? candidate.ingredients.map((ing) =>
+          isObject(ing) ? { ...ing, quantity: scale(ing.quantity, 3), estimated_price: scale(ing.estimated_price, 2) } : ing
+        )
+      : candidate.ingredients,
+  };
+}
@@ -0,0 +1,403 @@
+import type { PoolClient } from 'pg';
+import type { MealPlanIngredient, RecipeDetails } from './meal-plan';
+import { toNumber, type StoredIngredient } from './meal-plan-store';
+
+/**
+ * Recipe library: per-user copies of recipes worth keeping, with a favourite flag, 1–5 rating, tags
+ * and notes. Library recipes are independent of the plan they were saved from, can be dropped into
+ * new plans, and tell Claude which dishes the user liked or didn't.
+ */
+export interface LibraryRecipeMeta {
+  favourite: boolean;
+  rating: number | null;
+  tags: string[];
+  notes: string | null;
+}
+
+export interface LibraryRecipeSummary extends LibraryRecipeMeta {
+  id: number;
+  source_recipe_id: number | null;
+  title: string;
+  /** Servings the quantities and cost are for. */
+  servings: number;
+  prep_time: number | null;
+  cook_time: number | null;
+  estimated_cost: number | null;
+  calories: number | null;
+  times_used: number;
+  last_used_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface LibraryRecipe extends LibraryRecipeSummary {
+  instructions: string | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  ingredients: StoredIngredient[];
+}
+
+/** A recipe to store: a plan recipe without its day and slot, plus the servings it is written for. */
+export type LibraryRecipeInput = RecipeDetails & {
+  servings: number;
+  source_recipe_id: number | null;
+};
+
+export const LIBRARY_SORTS = ['recent', 'rating', 'title', 'most_used'] as const;
+export type LibrarySort = (typeof LIBRARY_SORTS)[number];
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_NOTES_LENGTH = 2000;
+/** How many liked and disliked titles are offered to Claude. */
+const MAX_PROMPT_RECIPES = 20;
+
+/** Accepts an array of strings or a comma-separated string; lower-cased and de-duplicated; null if invalid. */
+function normalizeTags(value: unknown): string[] | null {
+  const raw = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(raw)) return null;
+  const tags: string[] = [];
+  for (const tag of raw) {
+    if (typeof tag !== 'string') return null;
+    const trimmed = tag.trim().toLowerCase();
+    if (!trimmed) continue;
+    if (trimmed.length > MAX_TAG_LENGTH) return null;
+    if (!tags.includes(trimmed)) tags.push(trimmed);
+  }
+  return tags.length <= MAX_TAGS ? tags : null;
+}
+
+/**
+ * Validates favourite/rating/tags/notes in a library request body; with partial set only fields
+ * present are returned. Returns either the fields or a list of field errors.
+ */
+export function validateLibraryMeta(
+  body: Record<string, unknown>,
+  opts: { partial: boolean }
+): { meta: Partial<LibraryRecipeMeta>; errors: string[] } {
+  const meta: Partial<LibraryRecipeMeta> = {};
+  const errors: string[] = [];
+
+  if (body.favourite !== undefined) {
+    if (typeof body.favourite !== 'boolean') errors.push('favourite must be a boolean');
+    else meta.favourite = body.favourite;
+  }
+
+  if (body.rating !== undefined) {
+    const rating = body.rating;
+    if (rating === null) meta.rating = null;
+    else if (typeof rating !== 'number' || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+      errors.push('rating must be an integer from 1 to 5, or null');
+    } else meta.rating = rating;
+  }
+
+  if (body.tags !== undefined) {
+    const tags = body.tags === null ? [] : normalizeTags(body.tags);
+    if (tags == null) errors.push(`tags must be an array of up to ${MAX_TAGS} strings (max ${MAX_TAG_LENGTH} characters each)`);
+    else meta.tags = tags;
+  }
+
+  if (body.notes !== undefined) {
+    const notes = body.notes;
+    if (notes === null || (typeof notes === 'string' && !notes.trim())) meta.notes = null;
+    else if (typeof notes !== 'string' || notes.trim().length > MAX_NOTES_LENGTH) {
+      errors.push(`notes must be a string of at most ${MAX_NOTES_LENGTH} characters, or null`);
+    } else meta.notes = notes.trim();
+  }
+
+  if (opts.partial && errors.length === 0 && Object.keys(meta).length === 0) {
+    errors.push('At least one of favourite, rating, tags, notes is required');
+  }
+  return { meta, errors };
+}
+
+const SUMMARY_COLUMNS = `lr.id, lr.source_recipe_id, lr.title, lr.servings, lr.prep_time, lr.cook_time, lr.estimated_cost,
+  lr.calories, lr.favourite, lr.rating, lr.tags, lr.notes, lr.times_used, lr.last_used_at, lr.created_at, lr.updated_at`;
+
+const DETAIL_COLUMNS = `${SUMMARY_COLUMNS}, lr.instructions, lr.protein, lr.carbs, lr.fat`;
+
+interface LibraryRecipeRow extends Omit<LibraryRecipe, 'estimated_cost' | 'protein' | 'carbs' | 'fat' | 'ingredients'> {
+  estimated_cost: string | null;
+  protein?: string | null;
+  carbs?: string | null;
+  fat?: string | null;
+}
+
+function rowToSummary(row: LibraryRecipeRow): LibraryRecipeSummary {
+  return {
+    id: row.id,
+    source_recipe_id: row.source_recipe_id,
+    title: row.title,
+    servings: row.servings,
+    prep_time: row.prep_time,
+    cook_time: row.cook_time,
+    estimated_cost: toNumber(row.estimated_cost),
+    calories: row.calories,
+    favourite: row.favourite,
+    rating: row.rating,
+    tags: row.tags,
+    notes: row.notes,
+    times_used: row.times_used,
+    last_used_at: row.last_used_at,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Stores a recipe and its ingredients in the user's library. Titles are unique per user (case-insensitive);
+ * returns null when the library already has one with this title.
+ */
+export async function insertLibraryRecipe(
+  client: PoolClient,
+  userId: number,
+  recipe: LibraryRecipeInput,
+  meta: Partial<LibraryRecipeMeta>
+): Promise<number | null> {
+  const result = await client.query<{ id: number }>(
+    `INSERT INTO library_recipes (user_id, source_recipe_id, title, instructions, prep_time, cook_time, estimated_cost,
+       calories, protein, carbs, fat, servings, favourite, rating, tags, notes)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+     ON CONFLICT (user_id, lower(title)) DO NOTHING
+     RETURNING id`,
+    [
+      userId,
+      recipe.source_recipe_id,
+      recipe.title,
+      recipe.instructions,
+      recipe.prep_time,
+      recipe.cook_time,
+      recipe.estimated_cost,
+      recipe.calories,
+      recipe.protein,
+      recipe.carbs,
+      recipe.fat,
+      recipe.servings,
+      meta.favourite ?? false,
+      meta.rating ?? null,
+      meta.tags ?? [],
+      meta.notes ?? null,
+    ]
+  );
+  const id = result.rows[0]?.id;
+  if (id == null) return null;
+  for (const ing of recipe.ingredients) {
+    await client.query(
+      `INSERT INTO library_recipe_ingredients (library_recipe_id, ingredient_name, quantity, unit, category, estimated_price)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [id, ing.ingredient_name, ing.quantity, ing.unit, ing.category, ing.estimated_price]
+    );
+  }
+  return id;
+}
+
+/** Id of the library recipe with this title (case-insensitive), if any. */
+export async function findLibraryRecipeIdByTitle(client: PoolClient, userId: number, title: string): Promise<number | null> {
+  const result = await client.query<{ id: number }>(
+    'SELECT id FROM library_recipes WHERE user_id = $1 AND lower(title) = lower($2)',
+    [userId, title]
+  );
+  return result.rows[0]?.id ?? null;
+}
+
+const SORT_SQL: Record<LibrarySort, string> = {
+  recent: 'lr.created_at DESC, lr.id DESC',
+  rating: 'lr.rating DESC NULLS LAST, lr.favourite DESC, lr.title',
+  title: 'lower(lr.title), lr.id',
+  most_used: 'lr.times_used DESC, lr.last_used_at DESC NULLS LAST, lr.id DESC',
+};
+
+/**
+ * Searches the user's library. q matches title, tags and ingredient names (case-insensitive substring);
+ * tag, favourite and minRating narrow the results.
+ */
+export async function listLibraryRecipes(
+  client: PoolClient,
+  userId: number,
+  opts: { q?: string; tag?: string; favourite?: boolean; minRating?: number; sort: LibrarySort; limit: number; offset: number }
+): Promise<{ recipes: LibraryRecipeSummary[]; total: number }> {
+  const params: unknown[] = [userId];
+  const where = ['lr.user_id = $1'];
+  if (opts.q) {
+    params.push(`%${opts.q.replace(/[\\%_]/g, '\\$&')}%`);
+    const p = `$${params.length}`;
+    where.push(`(lr.title ILIKE ${p}
+      OR EXISTS (SELECT 1 FROM unnest(lr.tags) t WHERE t ILIKE ${p})
+      OR EXISTS (SELECT 1 FROM library_recipe_ingredients li WHERE li.library_recipe_id = lr.id AND li.ingredient_name ILIKE ${p}))`);
+  }
+  if (opts.tag) {
+    params.push(opts.tag.toLowerCase());
+    where.push(`$${params.length}::text = ANY(lr.tags)`);
+  }
+  if (opts.favourite !== undefined) {
+    params.push(opts.favourite);
+    where.push(`lr.favourite = $${params.length}`);
+  }
+  if (opts.minRating !== undefined) {
+    params.push(opts.minRating);
+    where.push(`lr.rating >= $${params.length}`);
+  }
+
+  const countResult = await client.query<{ total: number }>(
+    `SELECT COUNT(*)::int AS total FROM library_recipes lr WHERE ${where.join(' AND ')}`,
+    params
+  );
+  const listResult = await client.query<LibraryRecipeRow>(
+    `SELECT ${SUMMARY_COLUMNS} FROM library_recipes lr
+     WHERE ${where.join(' AND ')}
+     ORDER BY ${SORT_SQL[opts.sort]}
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, opts.limit, opts.offset]
+  );
+  return { recipes: listResult.rows.map(rowToSummary), total: countResult.rows[0].total };
+}
+
+/** Full library recipes (with ingredients) owned by userId, keyed by id; unknown ids are left out. */
+export async function loadLibraryRecipes(
+  client: PoolClient,
+  userId: number,
+  ids: number[]
+): Promise<Map<number, LibraryRecipe>> {
+  const recipesResult = await client.query<LibraryRecipeRow>(
+    `SELECT ${DETAIL_COLUMNS} FROM library_recipes lr WHERE lr.user_id = $1 AND lr.id = ANY($2::int[])`,
+    [userId, ids]
+  );
+  const ingredientsResult = await client.query(
+    `SELECT id, library_recipe_id, ingredient_name, quantity, unit, category, estimated_price
+     FROM library_recipe_ingredients WHERE library_recipe_id = ANY($1::int[])
+     ORDER BY id`,
+    [recipesResult.rows.map((r) => r.id)]
+  );
+
+  const recipes = new Map<number, LibraryRecipe>();
+  for (const row of recipesResult.rows) {
+    recipes.set(row.id, {
+      ...rowToSummary(row),
+      instructions: row.instructions,
+      protein: toNumber(row.protein),
+      carbs: toNumber(row.carbs),
+      fat: toNumber(row.fat),
+      ingredients: [],
+    });
+  }
+  for (const row of ingredientsResult.rows) {
+    recipes.get(row.library_recipe_id)?.ingredients.push({
+      id: row.id,
+      ingredient_name: row.ingredient_name,
+      quantity: toNumber(row.quantity),
+      unit: row.unit,
+      category: row.category,
+      estimated_price: toNumber(row.estimated_price),
+    });
+  }
+  return recipes;
+}
+
+export async function loadLibraryRecipe(client: PoolClient, userId: number, id: number): Promise<LibraryRecipe | null> {
+  return (await loadLibraryRecipes(client, userId, [id])).get(id) ?? null;
+}
+
+/** Applies the fields present in meta; null if the recipe does not exist or belongs to someone else. */
+export async function updateLibraryRecipeMeta(
+  client: PoolClient,
+  userId: number,
+  id: number,
+  meta: Partial<LibraryRecipeMeta>
+): Promise<LibraryRecipe | null> {
+  const sets: string[] = [];
+  const params: unknown[] = [];
+  for (const field of ['favourite', 'rating', 'tags', 'notes'] as const) {
+    if (meta[field] !== undefined) {
+      params.push(meta[field]);
+      sets.push(`${field} = $${params.length}`);
+    }
+  }
+  params.push(id, userId);
+  const result = await client.query(
+    `UPDATE library_recipes SET ${sets.join(', ')}, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $${params.length - 1} AND user_id = $${params.length}`,
+    params
+  );
+  return result.rowCount ? loadLibraryRecipe(client, userId, id) : null;
+}
+
+function roundTo(value: number | null, places: number): number | null {
+  if (value == null) return null;
+  const f = 10 ** places;
+  return Math.round(value * f) / f;
+}
+
+/**
+ * A library recipe as a plan recipe (without its day and slot), with quantities, prices and cost
+ * scaled from the library servings to the plan's. Nutrition is per serving and stays as it is.
+ */
+export function libraryRecipeToPlanRecipe(
+  recipe: LibraryRecipe,
+  servings: number
+): RecipeDetails {
+  const factor = servings / recipe.servings;
+  return {
+    title: recipe.title,
+    instructions: recipe.instructions ?? '',
+    prep_time: recipe.prep_time,
+    cook_time: recipe.cook_time,
+    estimated_cost: roundTo(recipe.estimated_cost != null ? recipe.estimated_cost * factor : null, 2),
+    calories: recipe.calories,
+    protein: recipe.protein,
+    carbs: recipe.carbs,
+    fat: recipe.fat,
+    ingredients: recipe.ingredients.map(
+      (ing): MealPlanIngredient => ({
+        ingredient_name: ing.ingredient_name,
+        quantity: roundTo(ing.quantity != null ? ing.quantity * factor : null, 3),
+        unit: ing.unit,
+        category: ing.category,
+        estimated_price: roundTo(ing.estimated_price != null ? ing.estimated_price * factor : null, 2),
+      })
+    ),
+  };
+}
+
+/** Records that library recipes went into a new plan. */
+export async function markLibraryRecipesUsed(client: PoolClient, ids: number[]): Promise<void> {
+  await client.query(
+    `UPDATE library_recipes SET times_used = times_used + 1, last_used_at = CURRENT_TIMESTAMP
+     WHERE id = ANY($1::int[])`,
+    [ids]
+  );
+}
+
+/** Liked (favourite or rated 4–5) and disliked (rated 1–2) library titles, best and worst first. */
+export async function loadRecipePreferences(
+  client: PoolClient,
+  userId: number
+): Promise<{ liked: string[]; disliked: string[] }> {
+  const result = await client.query<{ title: string; liked: boolean }>(
+    `(SELECT title, TRUE AS liked FROM library_recipes
+      WHERE user_id = $1 AND (favourite OR rating >= 4) AND (rating IS NULL OR rating >= 3)
+      ORDER BY rating DESC NULLS LAST, times_used DESC LIMIT $2)
+     UNION ALL
+     (SELECT title, FALSE AS liked FROM library_recipes
+      WHERE user_id = $1 AND rating <= 2
+      ORDER BY rating, updated_at DESC LIMIT $2)`,
+    [userId, MAX_PROMPT_RECIPES]
+  );
+  return {
+    liked: result.rows.filter((r) => r.liked).map((r) => r.title),
+    disliked: result.rows.filter((r) => !r.liked).map((r) => r.title),
+  };
+}
+
+/** Library section appended to the system prompt; null when the user has no liked or disliked recipes. */
+export function buildLibraryPromptSection(prefs: { liked: string[]; disliked: string[] }): string | null {
+  if (prefs.liked.length === 0 && prefs.disliked.length === 0) return null;
+  const lines = ["Recipe history (from the user's saved recipes):"];
+  if (prefs.liked.length > 0) {
+    lines.push(`- Liked (reuse some of these or suggest similar dishes): ${prefs.liked.join('; ')}`);
+  }
+  if (prefs.disliked.length > 0) {
+    lines.push(`- Disliked (do not suggest these or close variations): ${prefs.disliked.join('; ')}`);
+  }
+  return lines.join('\n');
+}
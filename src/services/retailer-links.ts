@@ -0,0 +1,99 @@
+import { randomBytes } from 'crypto';
+import type { PoolClient } from 'pg';
+
+/**
+ * Per-item retailer search links for a shopping list, with click tracking. Each link gets an
+ * unguessable token; following /links/:token records the click and redirects to the retailer.
+ */
+
+/** Preparation and size words that retailers' search ignores or that narrow results to nothing. */
+const DESCRIPTOR_WORDS = new Set([
+  'fresh',
+  'freshly',
+  'finely',
+  'roughly',
+  'thinly',
+  'diced',
+  'minced',
+  'sliced',
+  'grated',
+  'crushed',
+  'peeled',
+  'deseeded',
+  'trimmed',
+  'cubed',
+  'halved',
+  'quartered',
+  'shredded',
+  'ripe',
+  'large',
+  'medium',
+  'small',
+  'optional',
+  'about',
+  'approx',
+  'of',
+]);
+
+/**
+ * Turns an ingredient line into a search term a retailer's site will match: drops anything in
+ * brackets or after a comma ("onion, finely chopped"), preparation words and "to taste".
+ * "Chopped" is only dropped after an adverb, so "chopped tomato" (a tinned product) survives.
+ */
+export function cleanSearchTerm(ingredientName: string): string {
+  const words = ingredientName
+    .toLowerCase()
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')
+    .split(/[,;]/)[0]
+    .replace(/\bto taste\b|\bfor (serving|garnish)\b/g, ' ')
+    .replace(/\b(finely|roughly|thinly)\s+chopped\b/g, ' ')
+    .replace(/[^a-z0-9\s&'-]/g, ' ')
+    .split(/\s+/)
+    .filter((w) => w && !DESCRIPTOR_WORDS.has(w) && !/^\d/.test(w));
+  return words.join(' ').trim() || ingredientName.trim().toLowerCase();
+}
+
+export interface RetailerLink {
+  id: number;
+  shopping_list_item_id: number | null;
+  ingredient_name: string;
+  search_term: string;
+  retailer: string;
+  url: string;
+  token: string;
+}
+
+/** Stores one tracked link per item; url is the retailer search URL the token redirects to. */
+export async function insertRetailerLinks(
+  client: PoolClient,
+  userId: number,
+  shoppingListId: number,
+  retailer: string,
+  links: { shopping_list_item_id: number; ingredient_name: string; search_term: string; url: string }[]
+): Promise<RetailerLink[]> {
+  const stored: RetailerLink[] = [];
+  for (const link of links) {
+    const token = randomBytes(16).toString('hex');
+    const result = await client.query<{ id: number }>(
+      `INSERT INTO retailer_links (user_id, shopping_list_id, shopping_list_item_id, retailer, ingredient_name, search_term, url, token)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING id`,
+      [userId, shoppingListId, link.shopping_list_item_id, retailer, link.ingredient_name, link.search_term, link.url, token]
+    );
+    stored.push({ id: result.rows[0].id, retailer, token, ...link });
+  }
+  return stored;
+}
+
+/** Records a click on a link and returns the URL to redirect to, or null for an unknown token. */
+export async function recordRetailerLinkClick(client: PoolClient, token: string): Promise<string | null> {
+  const result = await client.query<{ url: string }>(
+    `UPDATE retailer_links
+     SET click_count = click_count + 1,
+         first_clicked_at = COALESCE(first_clicked_at, CURRENT_TIMESTAMP),
+         last_clicked_at = CURRENT_TIMESTAMP
+     WHERE token = $1
+     RETURNING url`,
+    [token]
+  );
+  return result.rows[0]?.url ?? null;
+}
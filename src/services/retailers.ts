@@ -0,0 +1,102 @@
+import fs from 'fs';
+import { retailerConfig } from '../retailer-config';
+
+/**
+ * Retailer registry: each supported retailer's display name, search URL template and the
+ * affiliate/UTM parameters added to its links. Built-in retailers can be overridden, and new ones
+ * added, with a JSON file (RETAILERS_FILE); ENABLED_RETAILERS picks which are offered.
+ */
+export interface RetailerDefinition {
+  /** Stable id used in requests and stored on tracked links, e.g. "tesco". */
+  id: string;
+  display_name: string;
+  /** Search page URL with a {query} placeholder for the URL-encoded search term. */
+  search_url: string;
+  /** Extra query parameters (affiliate ids, UTM tags). utm_source defaults to UTM_SOURCE. */
+  params?: Record<string, string>;
+}
+
+const BUILT_IN_RETAILERS: RetailerDefinition[] = [
+  { id: 'tesco', display_name: 'Tesco', search_url: 'https://www.tesco.com/groceries/en-GB/search?query={query}' },
+  {
+    id: 'sainsburys',
+    display_name: "Sainsbury's",
+    search_url: 'https://www.sainsburys.co.uk/gol-ui/SearchDisplayView?searchTerm={query}',
+  },
+  { id: 'asda', display_name: 'Asda', search_url: 'https://groceries.asda.com/search/{query}' },
+  { id: 'morrisons', display_name: 'Morrisons', search_url: 'https://groceries.morrisons.com/search?entry={query}' },
+  { id: 'waitrose', display_name: 'Waitrose', search_url: 'https://www.waitrose.com/ecom/shop/search?searchTerm={query}' },
+  { id: 'ocado', display_name: 'Ocado', search_url: 'https://www.ocado.com/search?entry={query}' },
+  { id: 'aldi', display_name: 'Aldi', search_url: 'https://groceries.aldi.co.uk/en-GB/Search?keywords={query}' },
+];
+
+function fail(message: string): never {
+  console.error(`FATAL: ${message}`);
+  process.exit(1);
+}
+
+function validateDefinition(value: unknown, index: number): RetailerDefinition {
+  const where = `${retailerConfig.RETAILERS_FILE} entry ${index}`;
+  if (value == null || typeof value !== 'object' || Array.isArray(value)) fail(`${where} must be an object.`);
+  const { id, display_name, search_url, params } = value as Record<string, unknown>;
+  if (typeof id !== 'string' || !/^[a-z0-9_-]{1,50}$/.test(id)) fail(`${where}: id must be 1–50 lowercase letters, digits, - or _.`);
+  if (typeof display_name !== 'string' || !display_name.trim()) fail(`${where}: display_name is required.`);
+  if (typeof search_url !== 'string' || !search_url.includes('{query}') || !/^https:\/\//.test(search_url)) {
+    fail(`${where}: search_url must be an https URL containing {query}.`);
+  }
+  if (
+    params !== undefined &&
+    (params == null || typeof params !== 'object' || Object.values(params).some((v) => typeof v !== 'string'))
+  ) {
+    fail(`${where}: params must be an object of string values.`);
+  }
+  return { id, display_name: display_name.trim(), search_url, params: params as Record<string, string> | undefined };
+}
+
+/** Built-ins merged with RETAILERS_FILE entries (same id replaces), filtered by ENABLED_RETAILERS. */
+function loadRegistry(): RetailerDefinition[] {
+  const byId = new Map(BUILT_IN_RETAILERS.map((r) => [r.id, r]));
+  if (retailerConfig.RETAILERS_FILE) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(retailerConfig.RETAILERS_FILE, 'utf8'));
+    } catch (err) {
+      fail(`Could not read RETAILERS_FILE ${retailerConfig.RETAILERS_FILE}: ${String(err)}`);
+    }
+    if (!Array.isArray(parsed)) fail(`${retailerConfig.RETAILERS_FILE} must contain a JSON array of retailers.`);
+    parsed.forEach((entry, i) => {
+      const definition = validateDefinition(entry, i);
+      byId.set(definition.id, definition);
+    });
+  }
+
+  const enabled = retailerConfig.ENABLED_RETAILERS.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean);
+  if (enabled.length === 0) return [...byId.values()];
+  const unknown = enabled.filter((id) => !byId.has(id));
+  if (unknown.length > 0) fail(`ENABLED_RETAILERS contains unknown retailer(s): ${unknown.join(', ')}.`);
+  return enabled.map((id) => byId.get(id)!);
+}
+
+const REGISTRY = loadRegistry();
+
+/** Retailers offered to clients, in configured order. */
+export function listRetailers(): readonly RetailerDefinition[] {
+  return REGISTRY;
+}
+
+/** Case-insensitive lookup; null if the retailer is unknown or not enabled. */
+export function findRetailer(id: unknown): RetailerDefinition | null {
+  if (typeof id !== 'string') return null;
+  const wanted = id.trim().toLowerCase();
+  return REGISTRY.find((r) => r.id === wanted) ?? null;
+}
+
+/** Search URL for a term at a retailer, with its affiliate/UTM parameters. */
+export function buildRetailerSearchUrl(retailer: RetailerDefinition, searchQuery: string): string {
+  const url = new URL(retailer.search_url.replace('{query}', encodeURIComponent(searchQuery.trim())));
+  const params = { utm_source: retailerConfig.UTM_SOURCE, ...retailer.params };
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
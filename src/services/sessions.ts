@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import type { PoolClient } from 'pg';
+import { config } from '../config';
+
+/**
+ * Login sessions. Each login or registration creates a session holding a hash of its refresh token;
+ * access tokens carry the session id. Refreshing rotates the token, and presenting a token that has
+ * already been rotated away revokes the session, since it means the token was copied.
+ */
+export interface SessionSummary {
+  id: number;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+  user_agent: string | null;
+  ip_address: string | null;
+}
+
+export interface SessionMeta {
+  userAgent: string | null;
+  ip: string | null;
+}
+
+export interface IssuedRefreshToken {
+  sessionId: number;
+  refreshToken: string;
+  expiresAt: Date;
+}
+
+export type RefreshResult =
+  | ({ ok: true; userId: number; email: string } & IssuedRefreshToken)
+  | { ok: false; reason: 'invalid' | 'expired' | 'reused' };
+
+/** Anything that can run a query: the pool (for the per-request session check) or a checked-out client. */
+type Queryable = Pick<PoolClient, 'query'>;
+
+function newRefreshToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/** Expiry is computed by the database so it compares cleanly with CURRENT_TIMESTAMP. */
+const REFRESH_EXPIRY_SQL = 'CURRENT_TIMESTAMP + make_interval(days => $1::int)';
+
+export async function createSession(client: PoolClient, userId: number, meta: SessionMeta): Promise<IssuedRefreshToken> {
+  const refreshToken = newRefreshToken();
+  const result = await client.query<{ id: number; expires_at: Date }>(
+    `INSERT INTO sessions (user_id, refresh_token_hash, expires_at, user_agent, ip_address)
+     VALUES ($2, $3, ${REFRESH_EXPIRY_SQL}, $4, $5) RETURNING id, expires_at`,
+    [
+      config.REFRESH_TOKEN_TTL_DAYS,
+      userId,
+      hashToken(refreshToken),
+      meta.userAgent?.slice(0, 255) ?? null,
+      meta.ip?.slice(0, 64) ?? null,
+    ]
+  );
+  return { sessionId: result.rows[0].id, refreshToken, expiresAt: result.rows[0].expires_at };
+}
+
+/**
+ * Swaps a refresh token for a new one and extends the session. Run inside the caller's transaction:
+ * the session row is locked so two refreshes with the same token cannot both succeed.
+ */
+export async function rotateRefreshToken(client: PoolClient, refreshToken: string, meta: SessionMeta): Promise<RefreshResult> {
+  const hash = hashToken(refreshToken);
+  const result = await client.query<{
+    id: number;
+    user_id: number;
+    email: string;
+    refresh_token_hash: string;
+    expired: boolean;
+    revoked_at: Date | null;
+  }>(
+    `SELECT s.id, s.user_id, u.email, s.refresh_token_hash, s.expires_at <= CURRENT_TIMESTAMP AS expired, s.revoked_at
+     FROM sessions s JOIN users u ON u.id = s.user_id
+     WHERE s.refresh_token_hash = $1 OR s.previous_token_hash = $1
+     FOR UPDATE OF s`,
+    [hash]
+  );
+  const session = result.rows[0];
+  if (!session || session.revoked_at != null) return { ok: false, reason: 'invalid' };
+  if (session.refresh_token_hash !== hash) {
+    await client.query('UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = $1', [session.id]);
+    return { ok: false, reason: 'reused' };
+  }
+  if (session.expired) return { ok: false, reason: 'expired' };
+
+  const next = newRefreshToken();
+  const updated = await client.query<{ expires_at: Date }>(
+    `UPDATE sessions
+     SET previous_token_hash = refresh_token_hash, refresh_token_hash = $2, expires_at = ${REFRESH_EXPIRY_SQL},
+         last_used_at = CURRENT_TIMESTAMP, user_agent = COALESCE($3, user_agent), ip_address = COALESCE($4, ip_address)
+     WHERE id = $5
+     RETURNING expires_at`,
+    [
+      config.REFRESH_TOKEN_TTL_DAYS,
+      hashToken(next),
+      meta.userAgent?.slice(0, 255) ?? null,
+      meta.ip?.slice(0, 64) ?? null,
+      session.id,
+    ]
+  );
+  return {
+    ok: true,
+    userId: session.user_id,
+    email: session.email,
+    sessionId: session.id,
+    refreshToken: next,
+    expiresAt: updated.rows[0].expires_at,
+  };
+}
+
+export async function isSessionActive(db: Queryable, sessionId: number, userId: number): Promise<boolean> {
+  const result = await db.query(
+    `SELECT 1 FROM sessions
+     WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP`,
+    [sessionId, userId]
+  );
+  return result.rows.length > 0;
+}
+
+/** The user's active sessions, most recently used first. */
+export async function listSessions(client: PoolClient, userId: number): Promise<SessionSummary[]> {
+  const result = await client.query<SessionSummary>(
+    `SELECT id, created_at, last_used_at, expires_at, user_agent, ip_address FROM sessions
+     WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+     ORDER BY last_used_at DESC, id DESC`,
+    [userId]
+  );
+  return result.rows;
+}
+
+/** False if the session does not exist or is already revoked. */
+export async function revokeSession(client: PoolClient, userId: number, sessionId: number): Promise<boolean> {
+  const result = await client.query(
+    'UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL',
+    [sessionId, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/** Revokes every active session of the user, except exceptSessionId if given; returns how many. */
+export async function revokeAllSessions(client: PoolClient, userId: number, exceptSessionId: number | null): Promise<number> {
+  const result = await client.query(
+    `UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP AND ($2::int IS NULL OR id <> $2)`,
+    [userId, exceptSessionId]
+  );
+  return result.rowCount ?? 0;
+}
@@ -0,0 +1,313 @@
+import type { PoolClient } from 'pg';
+import { toNumber } from './meal-plan-store';
+import { aggregateIngredients, subtractPantry, type PantryStock, type PantryUse, type ShoppingItem } from './shopping-list';
+import { resolveUnit } from './units';
+
+/**
+ * Persistence for shopping lists. A list belongs to a user and is built from one or more meal plans:
+ * the per-plan list (meal_plan_id set, one per plan) or a combined list over selected plans or the
+ * active plans in a date range. Items come from two sources: 'recipe' lines are derived from the
+ * plans' ingredients and rewritten on regeneration; 'manual' lines are added by the user and only
+ * change through the item endpoints. Callers own the transaction.
+ */
+
+export const SHOPPING_ITEM_SOURCES = ['recipe', 'manual'] as const;
+export type ShoppingItemSource = (typeof SHOPPING_ITEM_SOURCES)[number];
+
+export interface StoredShoppingItem extends ShoppingItem {
+  id: number;
+  source: ShoppingItemSource;
+  checked: boolean;
+}
+
+export interface ShoppingListSummary {
+  id: number;
+  name: string | null;
+  /** Set for the list generated by GET /shopping-list/:plan_id; null for combined lists. */
+  meal_plan_id: number | null;
+  meal_plan_ids: number[];
+  /**
+   * Distinct weeks the linked plans are for (a plan's week_start_date, or the week it was created in
+   * when unscheduled); at least 1. Plans for the same week count once.
+   */
+  weeks: number;
+  /** YYYY-MM-DD range for lists built from the active plans in a date range. */
+  date_from: string | null;
+  date_to: string | null;
+  total_cost: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface StoredShoppingList extends ShoppingListSummary {
+  items: StoredShoppingItem[];
+}
+
+const SUMMARY_COLUMNS = `sl.id, sl.name, sl.meal_plan_id, sl.total_cost, sl.created_at, sl.updated_at,
+  to_char(sl.date_from, 'YYYY-MM-DD') AS date_from, to_char(sl.date_to, 'YYYY-MM-DD') AS date_to,
+  ARRAY(SELECT slp.meal_plan_id FROM shopping_list_meal_plans slp
+        WHERE slp.shopping_list_id = sl.id ORDER BY slp.meal_plan_id) AS meal_plan_ids,
+  GREATEST(1, (SELECT COUNT(DISTINCT COALESCE(mp.week_start_date, date_trunc('week', mp.created_at)::date))
+               FROM shopping_list_meal_plans slp JOIN meal_plans mp ON mp.id = slp.meal_plan_id
+               WHERE slp.shopping_list_id = sl.id))::int AS weeks`;
+
+interface ShoppingListRow extends Omit<ShoppingListSummary, 'total_cost'> {
+  total_cost: string | null;
+}
+
+function rowToSummary(row: ShoppingListRow): ShoppingListSummary {
+  return { ...row, total_cost: toNumber(row.total_cost) ?? 0 };
+}
+
+/** Finds or creates the per-plan list for a plan (owned by userId) and links it; returns its id. */
+export async function upsertPlanShoppingList(client: PoolClient, userId: number, mealPlanId: number): Promise<number> {
+  const result = await client.query<{ id: number }>(
+    `INSERT INTO shopping_lists (meal_plan_id, user_id, total_cost)
+     VALUES ($1, $2, 0)
+     ON CONFLICT (meal_plan_id) DO UPDATE SET meal_plan_id = EXCLUDED.meal_plan_id
+     RETURNING id`,
+    [mealPlanId, userId]
+  );
+  const listId = result.rows[0].id;
+  await linkMealPlans(client, listId, [mealPlanId]);
+  return listId;
+}
+
+/** Creates a combined list; plans are linked with linkMealPlans. */
+export async function insertCombinedShoppingList(
+  client: PoolClient,
+  userId: number,
+  opts: { name: string | null; dateFrom: string | null; dateTo: string | null }
+): Promise<number> {
+  const result = await client.query<{ id: number }>(
+    `INSERT INTO shopping_lists (user_id, name, date_from, date_to, total_cost)
+     VALUES ($1, $2, $3, $4, 0) RETURNING id`,
+    [userId, opts.name, opts.dateFrom, opts.dateTo]
+  );
+  return result.rows[0].id;
+}
+
+export async function linkMealPlans(client: PoolClient, shoppingListId: number, mealPlanIds: number[]): Promise<void> {
+  await client.query(
+    `INSERT INTO shopping_list_meal_plans (shopping_list_id, meal_plan_id)
+     SELECT $1, unnest($2::int[])
+     ON CONFLICT DO NOTHING`,
+    [shoppingListId, mealPlanIds]
+  );
+}
+
+/** Replaces a combined list's plans (used when a date-range list is regenerated). */
+export async function replaceMealPlanLinks(client: PoolClient, shoppingListId: number, mealPlanIds: number[]): Promise<void> {
+  await client.query(
+    'DELETE FROM shopping_list_meal_plans WHERE shopping_list_id = $1 AND meal_plan_id <> ALL($2::int[])',
+    [shoppingListId, mealPlanIds]
+  );
+  await linkMealPlans(client, shoppingListId, mealPlanIds);
+}
+
+/** Ids of the user's active plans whose week overlaps [dateFrom, dateTo] (YYYY-MM-DD). */
+export async function findActivePlansInRange(
+  client: PoolClient,
+  userId: number,
+  dateFrom: string,
+  dateTo: string
+): Promise<number[]> {
+  const result = await client.query<{ id: number }>(
+    `SELECT id FROM meal_plans
+     WHERE user_id = $1 AND status = 'active' AND week_start_date IS NOT NULL
+       AND week_start_date <= $3::date AND week_start_date + 6 >= $2::date
+     ORDER BY week_start_date, id`,
+    [userId, dateFrom, dateTo]
+  );
+  return result.rows.map((r) => r.id);
+}
+
+/**
+ * Rebuilds the list's recipe lines from all of its plans' ingredients (aggregated, minus pantry stock
+ * when given) and recomputes the total. Returns what was taken from the pantry.
+ */
+export async function rebuildShoppingList(
+  client: PoolClient,
+  shoppingListId: number,
+  pantry: PantryStock[] | null
+): Promise<PantryUse[]> {
+  const ingredientsResult = await client.query(
+    `SELECT i.ingredient_name, i.quantity, i.unit, i.category, i.estimated_price
+     FROM ingredients i
+     JOIN recipes r ON r.id = i.recipe_id
+     JOIN shopping_list_meal_plans slp ON slp.meal_plan_id = r.meal_plan_id
+     WHERE slp.shopping_list_id = $1
+     ORDER BY r.meal_plan_id, i.id`,
+    [shoppingListId]
+  );
+  const aggregated = aggregateIngredients(
+    ingredientsResult.rows.map((row) => ({
+      ingredient_name: row.ingredient_name,
+      quantity: toNumber(row.quantity),
+      unit: row.unit,
+      category: row.category,
+      estimated_price: toNumber(row.estimated_price),
+    }))
+  );
+  const { items, used } = pantry ? subtractPantry(aggregated, pantry) : { items: aggregated, used: [] };
+  await syncRecipeItems(client, shoppingListId, items);
+  await recomputeShoppingListTotal(client, shoppingListId);
+  await client.query('UPDATE shopping_lists SET updated_at = CURRENT_TIMESTAMP WHERE id = $1', [shoppingListId]);
+  return used;
+}
+
+/** The user's lists, most recently updated first. */
+export async function listShoppingLists(
+  client: PoolClient,
+  userId: number,
+  opts: { limit: number; offset: number }
+): Promise<{ shopping_lists: ShoppingListSummary[]; total: number }> {
+  const countResult = await client.query<{ total: number }>(
+    'SELECT COUNT(*)::int AS total FROM shopping_lists WHERE user_id = $1',
+    [userId]
+  );
+  const listResult = await client.query<ShoppingListRow>(
+    `SELECT ${SUMMARY_COLUMNS} FROM shopping_lists sl
+     WHERE sl.user_id = $1
+     ORDER BY sl.updated_at DESC, sl.id DESC
+     LIMIT $2 OFFSET $3`,
+    [userId, opts.limit, opts.offset]
+  );
+  return { shopping_lists: listResult.rows.map(rowToSummary), total: countResult.rows[0].total };
+}
+
+/**
+ * Recipe lines are matched across regenerations by name and what the unit measures, not the display
+ * unit, so a line that moves between g and kg (or ml and l) is still the same line.
+ */
+function itemKey(item: { ingredient_name: string; unit: string | null }): string {
+  const { dimension, countUnit } = resolveUnit(item.unit);
+  return `${item.ingredient_name}\u0000${dimension}\u0000${countUnit ?? ''}`;
+}
+
+/** The quantity in its dimension's base unit (g, ml or items), for comparing across display units. */
+function baseQuantity(quantity: number | null, unit: string | null): number | null {
+  return quantity == null ? null : quantity * resolveUnit(unit).factor;
+}
+
+/**
+ * Brings the list's recipe lines in line with freshly aggregated items: matching lines are updated in
+ * place and keep their checked state (unless the quantity went up, so the extra is not missed), new
+ * lines are added unchecked and lines no longer needed are removed. Manual lines are left alone.
+ */
+export async function syncRecipeItems(client: PoolClient, shoppingListId: number, items: ShoppingItem[]): Promise<void> {
+  const existingResult = await client.query(
+    `SELECT id, ingredient_name, quantity, unit FROM shopping_list_items
+     WHERE shopping_list_id = $1 AND source = 'recipe'
+     ORDER BY id
+     FOR UPDATE`,
+    [shoppingListId]
+  );
+  const existing = new Map<string, { id: number; amount: number | null }>();
+  const stale: number[] = [];
+  for (const row of existingResult.rows) {
+    const key = itemKey(row);
+    // Lines stored before matching ignored g/kg can collide; keep the first, drop the rest.
+    if (existing.has(key)) stale.push(row.id);
+    else existing.set(key, { id: row.id, amount: baseQuantity(toNumber(row.quantity), row.unit) });
+  }
+
+  for (const item of items) {
+    const key = itemKey(item);
+    const match = existing.get(key);
+    if (match) {
+      existing.delete(key);
+      const amount = baseQuantity(item.quantity, item.unit);
+      // Small tolerance for floating-point error from the unit conversion.
+      const increased = amount != null && (match.amount == null || amount > match.amount + 1e-6 * Math.max(1, match.amount));
+      await client.query(
+        `UPDATE shopping_list_items
+         SET quantity = $2, unit = $3, category = $4, estimated_price = $5, checked = checked AND NOT $6
+         WHERE id = $1`,
+        [match.id, item.quantity, item.unit, item.category, item.estimated_price, increased]
+      );
+    } else {
+      await client.query(
+        `INSERT INTO shopping_list_items (shopping_list_id, ingredient_name, quantity, unit, category, estimated_price, checked, source)
+         VALUES ($1, $2, $3, $4, $5, $6, FALSE, 'recipe')`,
+        [shoppingListId, item.ingredient_name, item.quantity, item.unit, item.category, item.estimated_price]
+      );
+    }
+  }
+
+  stale.push(...[...existing.values()].map((e) => e.id));
+  if (stale.length > 0) {
+    await client.query('DELETE FROM shopping_list_items WHERE id = ANY($1::int[])', [stale]);
+  }
+}
+
+/** Adds a manual line; returns its id. */
+export async function insertManualItem(client: PoolClient, shoppingListId: number, item: ShoppingItem): Promise<number> {
+  const result = await client.query<{ id: number }>(
+    `INSERT INTO shopping_list_items (shopping_list_id, ingredient_name, quantity, unit, category, estimated_price, checked, source)
+     VALUES ($1, $2, $3, $4, $5, $6, FALSE, 'manual') RETURNING id`,
+    [shoppingListId, item.ingredient_name, item.quantity, item.unit, item.category, item.estimated_price]
+  );
+  return result.rows[0].id;
+}
+
+/** Recalculates shopping_lists.total_cost from all of its items; returns the new total. */
+export async function recomputeShoppingListTotal(client: PoolClient, shoppingListId: number): Promise<number> {
+  const result = await client.query<{ total: string }>(
+    `UPDATE shopping_lists
+     SET total_cost = (SELECT COALESCE(SUM(estimated_price), 0) FROM shopping_list_items WHERE shopping_list_id = $1)
+     WHERE id = $1
+     RETURNING total_cost AS total`,
+    [shoppingListId]
+  );
+  return toNumber(result.rows[0]?.total) ?? 0;
+}
+
+/** The list with its items grouped by category, or null if it does not exist or is not owned by userId. */
+export async function loadShoppingList(
+  client: PoolClient,
+  userId: number,
+  shoppingListId: number
+): Promise<StoredShoppingList | null> {
+  const listResult = await client.query<ShoppingListRow>(
+    `SELECT ${SUMMARY_COLUMNS} FROM shopping_lists sl WHERE sl.id = $1 AND sl.user_id = $2`,
+    [shoppingListId, userId]
+  );
+  if (!listResult.rows[0]) return null;
+
+  const itemsResult = await client.query(
+    `SELECT id, ingredient_name, quantity, unit, category, estimated_price, checked, source
+     FROM shopping_list_items WHERE shopping_list_id = $1
+     ORDER BY category NULLS LAST, ingredient_name, id`,
+    [shoppingListId]
+  );
+  return {
+    ...rowToSummary(listResult.rows[0]),
+    items: itemsResult.rows.map((row) => ({
+      id: row.id,
+      ingredient_name: row.ingredient_name,
+      quantity: toNumber(row.quantity),
+      unit: row.unit,
+      category: row.category,
+      estimated_price: toNumber(row.estimated_price),
+      checked: row.checked === true,
+      source: row.source,
+    })),
+  };
+}
+
+/** Sets checked on the given items of a list (all items when itemIds is null); returns the ids updated. */
+export async function setItemsChecked(
+  client: PoolClient,
+  shoppingListId: number,
+  itemIds: number[] | null,
+  checked: boolean
+): Promise<number[]> {
+  const result = await client.query<{ id: number }>(
+    `UPDATE shopping_list_items SET checked = $2
+     WHERE shopping_list_id = $1 AND ($3::int[] IS NULL OR id = ANY($3::int[]))
+     RETURNING id`,
+    [shoppingListId, checked, itemIds]
+  );
+  return result.rows.map((r) => r.id);
+}
@@ -0,0 +1,150 @@
+import { convertAmount, itemWeightGrams, normalizeIngredientName, resolveUnit, toDisplayUnit, type Dimension } from './units';
+
+/** An ingredient line as stored on a recipe (quantities in whatever unit Claude used). */
+export interface IngredientLine {
+  ingredient_name: string;
+  quantity: number | null;
+  unit: string | null;
+  category: string | null;
+  estimated_price: number | null;
+}
+
+/** One consolidated shopping list line per real product and compatible unit. */
+export interface ShoppingItem {
+  ingredient_name: string;
+  quantity: number | null;
+  unit: string | null;
+  category: string | null;
+  estimated_price: number | null;
+}
+
+interface Bucket {
+  dimension: Dimension;
+  countUnit: string | null;
+  /** Sum in the base unit (g, ml or items); null while no line had a quantity. */
+  amount: number | null;
+  price: number | null;
+  category: string | null;
+}
+
+function addTo(bucket: Bucket, amount: number | null, price: number | null, category: string | null): void {
+  if (amount != null) bucket.amount = (bucket.amount ?? 0) + amount;
+  if (price != null) bucket.price = (bucket.price ?? 0) + price;
+  bucket.category ??= category;
+}
+
+/**
+ * Aggregates ingredient lines into shopping items: names are normalised (case, plurals), quantities
+ * are converted to a common unit, and counted produce is folded into its weighed line when a typical
+ * item weight is known ("1 onion" + "200 g onions" → "350 g onion"). Amounts that cannot be
+ * converted (e.g. "2 cloves garlic" and "10 g garlic") stay on separate lines.
+ */
+export function aggregateIngredients(lines: IngredientLine[]): ShoppingItem[] {
+  const byName = new Map<string, Map<string, Bucket>>();
+
+  for (const line of lines) {
+    const name = normalizeIngredientName(line.ingredient_name);
+    if (!name) continue;
+    const unit = resolveUnit(line.unit);
+    const key = `${unit.dimension}:${unit.countUnit ?? ''}`;
+    const buckets = byName.get(name) ?? new Map<string, Bucket>();
+    const bucket = buckets.get(key) ?? {
+      dimension: unit.dimension,
+      countUnit: unit.countUnit,
+      amount: null,
+      price: null,
+      category: null,
+    };
+    addTo(bucket, line.quantity != null ? line.quantity * unit.factor : null, line.estimated_price, line.category);
+    buckets.set(key, bucket);
+    byName.set(name, buckets);
+  }
+
+  const items: ShoppingItem[] = [];
+  for (const [name, buckets] of byName) {
+    const mass = buckets.get('mass:');
+    const count = buckets.get('count:');
+    const weight = itemWeightGrams(name);
+    if (mass && count && weight != null) {
+      addTo(mass, count.amount != null ? count.amount * weight : null, count.price, count.category);
+      buckets.delete('count:');
+    }
+
+    for (const bucket of buckets.values()) {
+      const display = bucket.amount != null ? toDisplayUnit(bucket.amount, bucket.dimension, bucket.countUnit) : null;
+      items.push({
+        ingredient_name: name,
+        quantity: display?.quantity ?? null,
+        unit: display ? display.unit : bucket.countUnit,
+        category: bucket.category,
+        estimated_price: bucket.price != null ? Math.round(bucket.price * 100) / 100 : null,
+      });
+    }
+  }
+  return items;
+}
+
+/** Stock the user already has; quantity null means "some, amount unknown" and covers the whole need. */
+export interface PantryStock {
+  ingredient_name: string;
+  quantity: number | null;
+  unit: string | null;
+}
+
+export interface PantryUse {
+  ingredient_name: string;
+  quantity: number | null;
+  unit: string | null;
+}
+
+/**
+ * Takes pantry stock off aggregated shopping items: lines fully covered are dropped, partly covered
+ * lines keep the remainder with the price reduced in proportion. Stock is only counted once even
+ * if it could cover several lines. Returns the remaining items and what was taken from the pantry.
+ */
+export function subtractPantry(items: ShoppingItem[], pantry: PantryStock[]): { items: ShoppingItem[]; used: PantryUse[] } {
+  const stockByName = new Map<string, { quantity: number | null; unit: string | null }[]>();
+  for (const stock of pantry) {
+    const name = normalizeIngredientName(stock.ingredient_name);
+    if (!name) continue;
+    const list = stockByName.get(name) ?? [];
+    list.push({ quantity: stock.quantity, unit: stock.unit });
+    stockByName.set(name, list);
+  }
+
+  const remaining: ShoppingItem[] = [];
+  const used: PantryUse[] = [];
+  for (const item of items) {
+    const stocks = stockByName.get(item.ingredient_name) ?? [];
+    let needed = item.quantity;
+    for (const stock of stocks) {
+      if (needed != null && needed <= 0) break;
+      if (stock.quantity == null || needed == null) {
+        needed = 0;
+        break;
+      }
+      if (stock.quantity <= 0) continue;
+      const have = convertAmount(stock.quantity, stock.unit, item.unit, item.ingredient_name);
+      if (have == null) continue;
+      const take = Math.min(have, needed);
+      needed -= take;
+      stock.quantity -= convertAmount(take, item.unit, stock.unit, item.ingredient_name) ?? 0;
+    }
+
+    if (needed === item.quantity) {
+      remaining.push(item);
+      continue;
+    }
+    const left = needed != null && needed > 1e-6 ? Math.round(needed * 100) / 100 : 0;
+    const usedQuantity = item.quantity != null ? Math.round((item.quantity - left) * 100) / 100 : null;
+    used.push({ ingredient_name: item.ingredient_name, quantity: usedQuantity, unit: item.unit });
+    if (left > 0 && item.quantity != null) {
+      remaining.push({
+        ...item,
+        quantity: left,
+        estimated_price: item.estimated_price != null ? Math.round(((item.estimated_price * left) / item.quantity) * 100) / 100 : null,
+      });
+    }
+  }
+  return { items: remaining, used };
+}
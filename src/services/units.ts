@@ -0,0 +1,207 @@
+/**
+ * Unit conversion and ingredient-name normalisation for aggregating ingredients across recipes.
+ * Quantities are converted to a base unit per dimension (grams, millilitres, items) so that
+ * "200 g onion" and "0.5 kg Onion" add up, then shown in a sensible display unit.
+ */
+
+export type Dimension = 'mass' | 'volume' | 'count';
+
+/** A unit resolved to its dimension and the factor that converts it to the base unit. */
+export interface ResolvedUnit {
+  dimension: Dimension;
+  /** Multiply a quantity in this unit by factor to get grams, millilitres or items. */
+  factor: number;
+  /**
+   * For counted units other than plain items (clove, tin, bunch), the singular unit name; these only
+   * add up with the same unit. null for plain items ("1 onion", "2 whole").
+   */
+  countUnit: string | null;
+}
+
+const MASS_UNITS: Record<string, number> = {
+  mg: 0.001,
+  g: 1,
+  gr: 1,
+  gram: 1,
+  kg: 1000,
+  kilo: 1000,
+  kilogram: 1000,
+  oz: 28.35,
+  ounce: 28.35,
+  lb: 453.6,
+  pound: 453.6,
+};
+
+// UK measures: imperial pint and fluid ounce, metric cup.
+const VOLUME_UNITS: Record<string, number> = {
+  ml: 1,
+  millilitre: 1,
+  milliliter: 1,
+  cl: 10,
+  dl: 100,
+  l: 1000,
+  litre: 1000,
+  liter: 1000,
+  tsp: 5,
+  teaspoon: 5,
+  dessertspoon: 10,
+  dsp: 10,
+  tbsp: 15,
+  tbs: 15,
+  tbl: 15,
+  tablespoon: 15,
+  'fl oz': 28.41,
+  floz: 28.41,
+  'fluid ounce': 28.41,
+  cup: 250,
+  pint: 568,
+  pt: 568,
+};
+
+/** Units that just mean "this many of the thing". */
+const ITEM_UNITS = new Set(['', 'whole', 'each', 'x', 'item', 'piece', 'pc', 'unit', 'small', 'medium', 'large']);
+
+/** Typical weight in grams of one item, so counted and weighed amounts of common produce can be combined. */
+const ITEM_WEIGHT_G: Record<string, number> = {
+  onion: 150,
+  'red onion': 150,
+  potato: 200,
+  'sweet potato': 250,
+  carrot: 80,
+  tomato: 100,
+  'red pepper': 160,
+  'green pepper': 160,
+  'yellow pepper': 160,
+  pepper: 160,
+  courgette: 200,
+  aubergine: 250,
+  apple: 150,
+  banana: 120,
+  lemon: 100,
+  lime: 70,
+  egg: 58,
+  'chicken breast': 170,
+  'chicken thigh': 100,
+  avocado: 170,
+  cucumber: 300,
+  leek: 200,
+};
+
+/** Words ending in "s" that are already singular or have no singular form. */
+const PLURAL_EXCEPTIONS = new Set([
+  'asparagus',
+  'couscous',
+  'hummus',
+  'molasses',
+  'swiss',
+  'series',
+  'brussels',
+]);
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  leaves: 'leaf',
+  loaves: 'loaf',
+  halves: 'half',
+  knives: 'knife',
+  potatoes: 'potato',
+  tomatoes: 'tomato',
+  mangoes: 'mango',
+  chillies: 'chilli',
+  anchovies: 'anchovy',
+  cookies: 'cookie',
+  pies: 'pie',
+};
+
+function singularize(word: string): string {
+  if (IRREGULAR_PLURALS[word]) return IRREGULAR_PLURALS[word];
+  if (PLURAL_EXCEPTIONS.has(word) || word.length <= 2) return word;
+  if (/[^aeiou]ies$/.test(word)) return word.slice(0, -3) + 'y';
+  if (/(ss|us|is)$/.test(word)) return word;
+  if (/(ches|shes|xes|sses)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Canonical form of an ingredient name: lower case, accents and punctuation removed, whitespace
+ * collapsed and the last word singularised ("Cherry Tomatoes" → "cherry tomato").
+ */
+export function normalizeIngredientName(name: string): string {
+  const words = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  if (words.length === 0) return '';
+  words[words.length - 1] = singularize(words[words.length - 1]);
+  return words.join(' ');
+}
+
+function normalizeUnitName(unit: string): string {
+  const cleaned = unit.toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ').trim();
+  if (cleaned in MASS_UNITS || cleaned in VOLUME_UNITS || ITEM_UNITS.has(cleaned)) return cleaned;
+  const words = cleaned.split(' ');
+  words[words.length - 1] = singularize(words[words.length - 1]);
+  return words.join(' ');
+}
+
+/** Resolves a unit string ("Tbsp", "kgs", "cloves", null) to its dimension and base-unit factor. */
+export function resolveUnit(unit: string | null | undefined): ResolvedUnit {
+  const name = normalizeUnitName(unit ?? '');
+  if (name in MASS_UNITS) return { dimension: 'mass', factor: MASS_UNITS[name], countUnit: null };
+  if (name in VOLUME_UNITS) return { dimension: 'volume', factor: VOLUME_UNITS[name], countUnit: null };
+  if (ITEM_UNITS.has(name)) return { dimension: 'count', factor: 1, countUnit: null };
+  return { dimension: 'count', factor: 1, countUnit: name };
+}
+
+/** Grams per item for a normalised ingredient name, if known. */
+export function itemWeightGrams(normalizedName: string): number | null {
+  return ITEM_WEIGHT_G[normalizedName] ?? null;
+}
+
+/**
+ * Converts a quantity between two units for the given (normalised) ingredient; null when they measure
+ * different things. Plain item counts and weights convert through the typical item weight.
+ */
+export function convertAmount(
+  quantity: number,
+  fromUnit: string | null,
+  toUnit: string | null,
+  normalizedName: string
+): number | null {
+  const from = resolveUnit(fromUnit);
+  const to = resolveUnit(toUnit);
+  const base = quantity * from.factor;
+  if (from.dimension === to.dimension && from.countUnit === to.countUnit) return base / to.factor;
+
+  const weight = itemWeightGrams(normalizedName);
+  if (weight == null) return null;
+  if (from.dimension === 'count' && from.countUnit === null && to.dimension === 'mass') return (base * weight) / to.factor;
+  if (from.dimension === 'mass' && to.dimension === 'count' && to.countUnit === null) return base / weight / to.factor;
+  return null;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Converts a base-unit amount to the unit it reads best in (g/kg, ml/l, items). */
+export function toDisplayUnit(
+  amount: number,
+  dimension: Dimension,
+  countUnit: string | null
+): { quantity: number; unit: string | null } {
+  switch (dimension) {
+    case 'mass':
+      return amount >= 1000 ? { quantity: roundQuantity(amount / 1000), unit: 'kg' } : { quantity: roundQuantity(amount), unit: 'g' };
+    case 'volume':
+      if (amount >= 1000) return { quantity: roundQuantity(amount / 1000), unit: 'l' };
+      if (amount < 15) return { quantity: roundQuantity(amount / 5), unit: 'tsp' };
+      if (amount < 60) return { quantity: roundQuantity(amount / 15), unit: 'tbsp' };
+      return { quantity: roundQuantity(amount), unit: 'ml' };
+    case 'count':
+      return { quantity: roundQuantity(amount), unit: countUnit };
+  }
+}
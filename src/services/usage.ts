@@ -0,0 +1,200 @@
+import fs from 'fs';
+import type { PoolClient } from 'pg';
+import { config } from '../config';
+import type { LLMUsage } from '../llm';
+
+/**
+ * Message and token quotas. Each user is on a usage tier (users.usage_tier) that sets a quota window,
+ * daily or monthly (UTC), and how many messages and Claude tokens are allowed in it. Usage is counted
+ * per window in usage_windows, so allowances reset when a new window starts. Built-in tiers can be
+ * overridden, and new ones added, with a JSON file (QUOTA_TIERS_FILE).
+ */
+export const QUOTA_WINDOWS = ['daily', 'monthly'] as const;
+export type QuotaWindow = (typeof QUOTA_WINDOWS)[number];
+
+export interface UsageTier {
+  /** Stored in users.usage_tier, e.g. "free". */
+  id: string;
+  display_name: string;
+  window: QuotaWindow;
+  /** Claude requests per window (chat messages, swaps, make-it-cheaper); null = unlimited. */
+  message_limit: number | null;
+  /** Claude input plus output tokens per window; null = unlimited. */
+  token_limit: number | null;
+}
+
+export const DEFAULT_TIER_ID = 'free';
+
+const BUILT_IN_TIERS: UsageTier[] = [
+  {
+    id: DEFAULT_TIER_ID,
+    display_name: 'Free',
+    window: config.QUOTA_WINDOW,
+    message_limit: config.MESSAGE_QUOTA_PER_USER,
+    token_limit: config.TOKEN_QUOTA_PER_USER,
+  },
+  { id: 'plus', display_name: 'Plus', window: 'monthly', message_limit: 1500, token_limit: 6_000_000 },
+  { id: 'pro', display_name: 'Pro', window: 'monthly', message_limit: 6000, token_limit: 25_000_000 },
+  { id: 'unlimited', display_name: 'Unlimited', window: 'monthly', message_limit: null, token_limit: null },
+];
+
+function fail(message: string): never {
+  console.error(`FATAL: ${message}`);
+  process.exit(1);
+}
+
+function isLimit(value: unknown): value is number | null {
+  return value === null || (typeof value === 'number' && Number.isInteger(value) && value >= 0);
+}
+
+function validateTier(value: unknown, index: number): UsageTier {
+  const where = `${config.QUOTA_TIERS_FILE} entry ${index}`;
+  if (value == null || typeof value !== 'object' || Array.isArray(value)) fail(`${where} must be an object.`);
+  const { id, display_name, window, message_limit, token_limit } = value as Record<string, unknown>;
+  if (typeof id !== 'string' || !/^[a-z0-9_-]{1,50}$/.test(id)) fail(`${where}: id must be 1–50 lowercase letters, digits, - or _.`);
+  if (typeof display_name !== 'string' || !display_name.trim()) fail(`${where}: display_name is required.`);
+  if (!(QUOTA_WINDOWS as readonly unknown[]).includes(window)) fail(`${where}: window must be one of: ${QUOTA_WINDOWS.join(', ')}.`);
+  if (!isLimit(message_limit)) fail(`${where}: message_limit must be a non-negative integer or null.`);
+  if (!isLimit(token_limit)) fail(`${where}: token_limit must be a non-negative integer or null.`);
+  return { id, display_name: display_name.trim(), window: window as QuotaWindow, message_limit, token_limit };
+}
+
+/** Built-ins merged with QUOTA_TIERS_FILE entries (same id replaces). */
+function loadTiers(): Map<string, UsageTier> {
+  const byId = new Map(BUILT_IN_TIERS.map((t) => [t.id, t]));
+  if (config.QUOTA_TIERS_FILE) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(config.QUOTA_TIERS_FILE, 'utf8'));
+    } catch (err) {
+      fail(`Could not read QUOTA_TIERS_FILE ${config.QUOTA_TIERS_FILE}: ${String(err)}`);
+    }
+    if (!Array.isArray(parsed)) fail(`${config.QUOTA_TIERS_FILE} must contain a JSON array of tiers.`);
+    parsed.forEach((entry, i) => {
+      const tier = validateTier(entry, i);
+      byId.set(tier.id, tier);
+    });
+  }
+  return byId;
+}
+
+const TIERS = loadTiers();
+
+/** The tier with this id; unknown ids (e.g. a tier removed from QUOTA_TIERS_FILE) get the free tier. */
+export function getUsageTier(id: string | null | undefined): UsageTier {
+  return TIERS.get(id ?? DEFAULT_TIER_ID) ?? TIERS.get(DEFAULT_TIER_ID)!;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** The UTC window containing now: its first day (YYYY-MM-DD) and when the next one starts. */
+export function quotaWindowBounds(window: QuotaWindow, now: Date = new Date()): { start: string; resets_at: Date } {
+  const y = now.getUTCFullYear();
+  const m = now.getUTCMonth();
+  const d = now.getUTCDate();
+  return window === 'daily'
+    ? { start: isoDate(new Date(Date.UTC(y, m, d))), resets_at: new Date(Date.UTC(y, m, d + 1)) }
+    : { start: isoDate(new Date(Date.UTC(y, m, 1))), resets_at: new Date(Date.UTC(y, m + 1, 1)) };
+}
+
+export interface UsageAllowance {
+  used: number;
+  limit: number | null;
+  /** null when unlimited. */
+  remaining: number | null;
+}
+
+export interface UsageSummary {
+  tier: { id: string; display_name: string };
+  window: QuotaWindow;
+  window_start: string;
+  resets_at: Date;
+  messages: UsageAllowance;
+  tokens: UsageAllowance & { input: number; output: number };
+  /** Claude requests since the account was created. */
+  lifetime_messages: number;
+  /** True when either allowance is used up for this window. */
+  exhausted: boolean;
+}
+
+function allowance(used: number, limit: number | null): UsageAllowance {
+  return { used, limit, remaining: limit == null ? null : Math.max(0, limit - used) };
+}
+
+async function loadUserTier(client: PoolClient, userId: number): Promise<{ tier: UsageTier; lifetime_messages: number }> {
+  const result = await client.query<{ usage_tier: string | null; message_count: number | null }>(
+    'SELECT usage_tier, message_count FROM users WHERE id = $1',
+    [userId]
+  );
+  const row = result.rows[0];
+  return { tier: getUsageTier(row?.usage_tier), lifetime_messages: row?.message_count ?? 0 };
+}
+
+export async function loadUsage(client: PoolClient, userId: number): Promise<UsageSummary> {
+  const { tier, lifetime_messages } = await loadUserTier(client, userId);
+  const bounds = quotaWindowBounds(tier.window);
+  const result = await client.query<{ message_count: number; input_tokens: number; output_tokens: number }>(
+    `SELECT message_count, input_tokens, output_tokens FROM usage_windows
+     WHERE user_id = $1 AND quota_window = $2 AND window_start = $3`,
+    [userId, tier.window, bounds.start]
+  );
+  const row = result.rows[0] ?? { message_count: 0, input_tokens: 0, output_tokens: 0 };
+  const messages = allowance(row.message_count, tier.message_limit);
+  const tokens = allowance(row.input_tokens + row.output_tokens, tier.token_limit);
+
+  return {
+    tier: { id: tier.id, display_name: tier.display_name },
+    window: tier.window,
+    window_start: bounds.start,
+    resets_at: bounds.resets_at,
+    messages,
+    tokens: { ...tokens, input: row.input_tokens, output: row.output_tokens },
+    lifetime_messages,
+    exhausted: messages.remaining === 0 || tokens.remaining === 0,
+  };
+}
+
+/**
+ * Counts one Claude request against the current window if both allowances have room left. Tokens are
+ * only known once the request is made, so the request that crosses the token limit still completes
+ * and the next one is refused. Returns false when the quota is exhausted.
+ */
+export async function consumeMessage(client: PoolClient, userId: number): Promise<boolean> {
+  const { tier } = await loadUserTier(client, userId);
+  if (tier.message_limit === 0 || tier.token_limit === 0) return false;
+  const bounds = quotaWindowBounds(tier.window);
+  const result = await client.query(
+    `INSERT INTO usage_windows (user_id, quota_window, window_start, message_count) VALUES ($1, $2, $3, 1)
+     ON CONFLICT (user_id, quota_window, window_start) DO UPDATE SET message_count = usage_windows.message_count + 1
+     WHERE ($4::int IS NULL OR usage_windows.message_count < $4)
+       AND ($5::int IS NULL OR usage_windows.input_tokens + usage_windows.output_tokens < $5)
+     RETURNING message_count`,
+    [userId, tier.window, bounds.start, tier.message_limit, tier.token_limit]
+  );
+  if (result.rows.length === 0) return false;
+  await client.query('UPDATE users SET message_count = COALESCE(message_count, 0) + 1 WHERE id = $1', [userId]);
+  return true;
+}
+
+/** Adds the tokens Claude reported to the user's current window. */
+export async function recordTokenUsage(client: PoolClient, userId: number, usage: LLMUsage): Promise<void> {
+  if (usage.input_tokens + usage.output_tokens === 0) return;
+  const { tier } = await loadUserTier(client, userId);
+  const bounds = quotaWindowBounds(tier.window);
+  await client.query(
+    `INSERT INTO usage_windows (user_id, quota_window, window_start, input_tokens, output_tokens) VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (user_id, quota_window, window_start) DO UPDATE
+     SET input_tokens = usage_windows.input_tokens + EXCLUDED.input_tokens,
+         output_tokens = usage_windows.output_tokens + EXCLUDED.output_tokens`,
+    [userId, tier.window, bounds.start, usage.input_tokens, usage.output_tokens]
+  );
+}
+
+/** "You have used all 10 messages for today; your allowance resets at 2026-10-20T00:00:00.000Z." */
+export function quotaExceededMessage(usage: UsageSummary): string {
+  const period = usage.window === 'daily' ? 'today' : 'this month';
+  const what = usage.messages.remaining === 0 ? `all ${usage.messages.limit} messages` : `all ${usage.tokens.limit} tokens`;
+  return `You have used ${what} for ${period} on the ${usage.tier.display_name} plan; your allowance resets at ${usage.resets_at.toISOString()}.`;
+}